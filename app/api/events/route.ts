@@ -1,11 +1,19 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
-import { NotableEvent } from "@/lib/eventCache";
+import path from "path";
+import { eventKey, NotableEvent } from "@/lib/eventCache";
+import { createFileCache, ttlFromEnv } from "@/lib/fileCache";
+import { completeJsonArray, getConfiguredProviders } from "@/lib/llm";
+import { eventIssues } from "@/lib/validation";
 
 const CURRENT_YEAR = 2026;
 const EXTENSION = 25;
 
+// Server-side event store — EVENTS_CACHE_FILE / EVENTS_CACHE_TTL_DAYS (0 disables)
+const eventStore = createFileCache<NotableEvent[]>(
+  process.env.EVENTS_CACHE_FILE ?? path.join(process.cwd(), ".cache", "events.json"),
+  ttlFromEnv(process.env.EVENTS_CACHE_TTL_DAYS, 30)
+);
+
 const SYSTEM_PROMPT = `You are a historical research assistant. Given a person's name and life dates, return notable events as a JSON array.
 
 Rules:
@@ -21,70 +29,7 @@ Rules:
 Example output:
 [{"year":1789,"label":"French Revolution begins"},{"year":1804,"label":"Steam locomotive built"},{"year":1879,"label":"Edison patents lightbulb"}]`;
 
-async function callOpenRouter(apiKey: string, msg: string): Promise<string> {
-  const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-      "HTTP-Referer": "https://timeline-generator.app",
-      "X-Title": "Lifelines",
-    },
-    body: JSON.stringify({
-      model: "openrouter/free",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user",   content: msg },
-      ],
-    }),
-  });
-
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    const msg2 = err?.error?.message ?? `OpenRouter error ${res.status}`;
-    throw Object.assign(new Error(msg2), { status: res.status });
-  }
-
-  const json = await res.json();
-  return json.choices[0].message.content as string;
-}
-
-async function callGemini(apiKey: string, msg: string): Promise<string> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: "gemini-2.0-flash",
-    systemInstruction: SYSTEM_PROMPT,
-  });
-  const result = await model.generateContent(msg);
-  return result.response.text();
-}
-
-async function callAnthropic(apiKey: string, msg: string): Promise<string> {
-  const client = new Anthropic({ apiKey });
-  const message = await client.messages.create({
-    model: "claude-sonnet-4-6",
-    max_tokens: 1024,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: "user", content: msg }],
-  });
-  return message.content
-    .filter((b) => b.type === "text")
-    .map((b) => (b as { type: "text"; text: string }).text)
-    .join("");
-}
-
 export async function POST(request: NextRequest) {
-  const openRouterKey = process.env.OPENROUTER_API_KEY;
-  const geminiKey     = process.env.GEMINI_API_KEY;
-  const anthropicKey  = process.env.ANTHROPIC_API_KEY;
-
-  if (!openRouterKey && !geminiKey && !anthropicKey) {
-    return NextResponse.json(
-      { error: "No API key configured." },
-      { status: 500 }
-    );
-  }
-
   let name: string;
   let birth_year: number;
   let death_year: number | null;
@@ -102,6 +47,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
   }
 
+  const key = eventKey(name, birth_year, death_year);
+  const cached = await eventStore.get(key);
+  if (cached) {
+    return NextResponse.json({ events: cached, provider: null, cached: true });
+  }
+
+  if (getConfiguredProviders().length === 0) {
+    return NextResponse.json(
+      { error: "No API key configured." },
+      { status: 500 }
+    );
+  }
+
   const isAlive  = death_year === null;
   const gridEnd  = isAlive
     ? CURRENT_YEAR
@@ -113,33 +71,26 @@ export async function POST(request: NextRequest) {
     `Return 10-12 notable events from ${birth_year} to ${gridEnd}.`;
 
   try {
-    // Priority: OpenRouter → Gemini → Anthropic
-    const rawText = openRouterKey
-      ? await callOpenRouter(openRouterKey, userMessage)
-      : geminiKey
-      ? await callGemini(geminiKey, userMessage)
-      : await callAnthropic(anthropicKey!, userMessage);
-
-    let events: NotableEvent[];
-    try {
-      const cleaned = rawText
-        .replace(/^```(?:json)?\n?/m, "")
-        .replace(/\n?```$/m, "")
-        .trim();
-      events = JSON.parse(cleaned);
-      if (!Array.isArray(events)) throw new Error("Not an array");
-
-      events = events.filter(
-        (e) => typeof e.year === "number" && typeof e.label === "string"
-      );
-    } catch {
-      return NextResponse.json(
-        { error: "Failed to parse events response." },
-        { status: 502 }
-      );
+    const { entries, provider } = await completeJsonArray(
+      "events",
+      { system: SYSTEM_PROMPT, user: userMessage, maxTokens: 1024 },
+      (items) => items.flatMap((e, i) =>
+        eventIssues(e, birth_year, gridEnd).map((issue) => `entry ${i + 1}: ${issue}`)
+      )
+    );
+
+    // Keep only entries that passed validation, one per year
+    const seenYears = new Set<number>();
+    const events: NotableEvent[] = [];
+    for (const e of entries as NotableEvent[]) {
+      if (eventIssues(e, birth_year, gridEnd).length > 0 || seenYears.has(e.year)) continue;
+      seenYears.add(e.year);
+      events.push({ year: e.year, label: e.label.trim() });
     }
 
-    return NextResponse.json({ events });
+    if (events.length > 0) await eventStore.setMany([[key, events]]);
+
+    return NextResponse.json({ events, provider, cached: false });
   } catch (err) {
     const error = err as Error & { status?: number };
     return NextResponse.json(
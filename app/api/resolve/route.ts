@@ -1,177 +1,428 @@
-import Anthropic from "@anthropic-ai/sdk";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
-import { PersonData } from "@/types/timeline";
+import { AmbiguousName, PersonData, UnresolvedName } from "@/types/timeline";
+import {
+  completeJsonArray,
+  getConfiguredProviders,
+  providerEnvKeys,
+  ProviderError,
+  ProviderId,
+} from "@/lib/llm";
+import { normalizeName } from "@/lib/names";
+import { personCache } from "@/lib/personCache";
+import { CATEGORIES, personIssues, toPerson } from "@/lib/validation";
 
 const SYSTEM_PROMPT = `You are a biographical research assistant. Given a list of names, return a JSON array with birth and death information for each recognizable person.
 
 Rules:
 - Return ONLY a valid JSON array, no markdown, no explanation, no code fences.
-- Each entry must have: name (string), birth_year (integer), death_year (integer or null), category (string), approximate (boolean), description (string).
+- Return exactly one entry per input name, in input order.
+- Each entry must have: query (the input name exactly as given), name (string), birth_year (integer), death_year (integer or null), category (string), approximate (boolean), description (string).
 - death_year is null for living people.
-- Use negative integers for BC years (e.g. -69 for 69 BC).
+- Add birth_month and birth_day (integers, 1-based) and likewise death_month and death_day when the exact date is well documented; omit them otherwise. Never guess a day without its month.
+- Use negative integers for BC years (e.g. -69 for 69 BC). There is no year 0.
 - approximate is true when exact dates are uncertain or debated.
-- category must be one of: Scientists, Rulers, Artists, Athletes, Musicians, Writers, Philosophers, Explorers, Inventors, Mathematicians, Architects, Generals, Humanitarians, Theologians, Other
+- category must be one of: ${CATEGORIES.join(", ")}
 - description is a single quiet, precise sentence — like museum plaque text or an epitaph. State what they were known for, without flair. Max ~120 characters.
-- If a name is complete gibberish, fictional (unless clearly a real person known by a pseudonym), or unidentifiable, omit it entirely.
+- If a name is complete gibberish, fictional (unless clearly a real person known by a pseudonym), or unidentifiable, return only {"query": <input>, "unresolved": <short reason>} for it, e.g. "fictional character" or "no identifiable person".
 - For people known by a single name or stage name, use the name as provided.
+- An input line may end with " — hint: …" saying which person is meant (e.g. "the physicist, not the footballer"). Follow the hint, and echo only the name before it as query.
+- If a name plausibly refers to several notable people (e.g. "John Adams", "Alexander"), return {"query": <input>, "candidates": [...]} instead, with 2-4 full entries (same fields as above, without query), most likely first.
 
 Example output:
 [
-  {"name":"Cleopatra","birth_year":-69,"death_year":-30,"category":"Rulers","approximate":true,"description":"Last active pharaoh of ancient Egypt, renowned for political alliances with Rome."},
-  {"name":"Leonardo da Vinci","birth_year":1452,"death_year":1519,"category":"Artists","approximate":false,"description":"Florentine polymath whose notebooks mapped anatomy, flight, and the nature of water."},
-  {"name":"Taylor Swift","birth_year":1989,"death_year":null,"category":"Musicians","approximate":false,"description":"Singer-songwriter who redefined pop narrative through autobiographical lyricism."}
+  {"query":"cleopatra","name":"Cleopatra","birth_year":-69,"death_year":-30,"category":"Rulers","approximate":true,"description":"Last active pharaoh of ancient Egypt, renowned for political alliances with Rome."},
+  {"query":"Leonardo da Vinci","name":"Leonardo da Vinci","birth_year":1452,"birth_month":4,"birth_day":15,"death_year":1519,"death_month":5,"death_day":2,"category":"Artists","approximate":false,"description":"Florentine polymath whose notebooks mapped anatomy, flight, and the nature of water."},
+  {"query":"Taylor Swift","name":"Taylor Swift","birth_year":1989,"birth_month":12,"birth_day":13,"death_year":null,"category":"Musicians","approximate":false,"description":"Singer-songwriter who redefined pop narrative through autobiographical lyricism."},
+  {"query":"Sherlock Holmes","unresolved":"fictional character"},
+  {"query":"John Adams","candidates":[
+    {"name":"John Adams","birth_year":1735,"death_year":1826,"category":"Rulers","approximate":false,"description":"Second president of the United States and a principal author of independence."},
+    {"name":"John Adams","birth_year":1947,"death_year":null,"category":"Musicians","approximate":false,"description":"American composer whose minimalist operas set recent history to music."}
+  ]}
 ]`;
 
-// ── Provider calls ────────────────────────────────────────────────────────────
-
-// To switch providers, set the matching key in .env.local and restart the server:
-//   OPENROUTER_API_KEY  → uses openrouter/free (any available free model)
-//   GEMINI_API_KEY      → uses gemini-2.0-flash (free tier, 1500 req/day when available)
-//   ANTHROPIC_API_KEY   → uses claude-sonnet-4-6 (paid)
-// Priority order: OpenRouter → Gemini → Anthropic
-
-async function callOpenRouter(apiKey: string, userMessage: string): Promise<string> {
-  const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-      "HTTP-Referer": "https://timeline-generator.app",
-      "X-Title": "Lifelines",
-    },
-    body: JSON.stringify({
-      model: "openrouter/free",
-      messages: [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user",   content: userMessage },
-      ],
-    }),
+// ── Chunked resolution ────────────────────────────────────────────────────────
+
+// Large lists are split so no single response outgrows the token budget and
+// truncates into invalid JSON; chunks run a few at a time to stay polite with
+// rate limits. A failed chunk only loses its own names.
+const CHUNK_SIZE  = 15;
+const CONCURRENCY = 3;
+const MAX_TOKENS  = 2048;
+
+interface ChunkResult {
+  data: PersonData[];
+  queries: string[]; // the input each entry of `data` came from, "" when unknown
+  unresolved: UnresolvedName[];
+  ambiguous: AmbiguousName[];
+  provider: ProviderId;
+}
+
+// Raw entry as the model returns it — a person plus the echoed input,
+// a refusal, or a set of candidates for an ambiguous name
+type RawEntry = Partial<PersonData> & {
+  query?: unknown;
+  unresolved?: unknown;
+  candidates?: unknown;
+};
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+/** Like Promise.allSettled over items.map(fn), with at most `limit` in flight. */
+async function settleWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      try {
+        results[i] = { status: "fulfilled", value: await fn(items[i]) };
+      } catch (reason) {
+        results[i] = { status: "rejected", reason };
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** Validation problems across a whole response, labelled by entry. */
+function entryIssues(entries: unknown[]): string[] {
+  return (entries as RawEntry[]).flatMap((item, i) => {
+    const label = `entry ${i + 1}${typeof item?.name === "string" ? ` (${item.name})` : ""}`;
+    if (typeof item?.unresolved === "string") return [];
+    if (Array.isArray(item?.candidates)) {
+      return item.candidates.flatMap((c: unknown, j: number) =>
+        personIssues(c).map((issue) => `${label} candidate ${j + 1}: ${issue}`)
+      );
+    }
+    return personIssues(item).map((issue) => `${label}: ${issue}`);
   });
+}
+
+// The " — hint: " wording is read back by the offline mock — keep them in step
+function inputLine(name: string, i: number, hints: Record<string, string>): string {
+  const hint = hints[name]?.trim();
+  return `${i + 1}. ${name}${hint ? ` — hint: ${hint}` : ""}`;
+}
+
+async function resolveChunk(names: string[], hints: Record<string, string> = {}): Promise<ChunkResult> {
+  const userMessage = `Find biographical data for these people:\n${names.map((n, i) => inputLine(n, i, hints)).join("\n")}`;
+
+  const { entries: rawEntries, provider } = await completeJsonArray(
+    "resolve",
+    { system: SYSTEM_PROMPT, user: userMessage, maxTokens: MAX_TOKENS },
+    entryIssues
+  );
+  const entries = rawEntries as RawEntry[];
+
+  // Account for every requested name: resolved, refused with a reason, or dropped
+  const pending = new Map(names.map((n) => [normalizeName(n), n]));
+  const take = (query: unknown, fallback?: string): string | undefined => {
+    const key = normalizeName(typeof query === "string" ? query : fallback ?? "");
+    const input = pending.get(key);
+    pending.delete(key);
+    return input;
+  };
+
+  const data: PersonData[] = [];
+  const queries: string[] = [];
+  const unresolved: UnresolvedName[] = [];
+  const ambiguous: AmbiguousName[] = [];
+  let unattributed = 0; // valid people whose query matched no input
+  for (const item of entries) {
+    if (typeof item?.unresolved === "string") {
+      const input = take(item.query, item.name);
+      if (input) unresolved.push({ name: input, reason: item.unresolved });
+      continue;
+    }
 
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({}));
-    const msg = err?.error?.message ?? `OpenRouter error ${res.status}`;
-    throw Object.assign(new Error(msg), { status: res.status });
+    if (Array.isArray(item?.candidates)) {
+      const input = take(item.query, item.name);
+      const candidates = (item.candidates as unknown[])
+        .map(toPerson)
+        .filter((p): p is PersonData => p !== null);
+      if (!input) continue;
+      // A single surviving candidate isn't ambiguous any more
+      if (candidates.length > 1) ambiguous.push({ query: input, candidates });
+      else if (candidates.length === 1) {
+        data.push(candidates[0]);
+        queries.push(input);
+      }
+      else unresolved.push({ name: input, reason: "ambiguous name, no valid candidates" });
+      continue;
+    }
+
+    const person = toPerson(item);
+    const input = take(item?.query, item?.name);
+
+    if (!person) {
+      const [issue] = personIssues(item);
+      if (input) unresolved.push({ name: input, reason: `invalid data in AI response: ${issue}` });
+      continue;
+    }
+    if (!input) unattributed++;
+    data.push(person);
+    queries.push(input ?? "");
   }
 
-  const json = await res.json();
-  return json.choices[0].message.content as string;
+  // Leftover inputs were silently dropped — unless some person came back
+  // without a usable query, in which case we can't tell which input it was
+  if (unattributed === 0) {
+    for (const input of pending.values()) {
+      unresolved.push({ name: input, reason: "not returned by the AI" });
+    }
+  }
+
+  return { data, queries, unresolved, ambiguous, provider };
 }
 
-async function callGemini(apiKey: string, userMessage: string): Promise<string> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({
-    model: "gemini-2.0-flash",
-    systemInstruction: SYSTEM_PROMPT,
-  });
-  const result = await model.generateContent(userMessage);
-  return result.response.text();
+/** Map a provider/parse error to the message + status the client sees. */
+function describeError(err: unknown): { error: string; status: number } {
+  const error = err as ProviderError;
+
+  if (error.status === 401) return { error: "Invalid API key.", status: 401 };
+  if (error.status === 429) return { error: "Rate limit reached. Try again shortly.", status: 429 };
+  if (error.status === 502) return { error: error.message, status: 502 };
+
+  return { error: error.message ?? "Unexpected error calling the AI.", status: 500 };
 }
 
-async function callAnthropic(apiKey: string, userMessage: string): Promise<string> {
-  const client = new Anthropic({ apiKey });
-  const message = await client.messages.create({
-    model: "claude-sonnet-4-6",
-    max_tokens: 2048,
-    system: SYSTEM_PROMPT,
-    messages: [{ role: "user", content: userMessage }],
+interface ResolveOptions {
+  hints?: Record<string, string>; // input name → which person is meant
+  refresh?: boolean;              // bypass the cache both ways, e.g. to re-resolve one wrong entry
+}
+
+interface ResolveOutcome {
+  data: PersonData[];
+  providers: ProviderId[];
+  cached: number;
+  unresolved: UnresolvedName[];
+  ambiguous: AmbiguousName[];  // names awaiting the user's choice of candidate
+  error?: { error: string; status: number }; // set when nothing could be resolved
+}
+
+/**
+ * Resolve names from cache, then chunk the misses through the model.
+ * `onPeople` fires as soon as each batch of new (deduplicated) people is known,
+ * with the input each answered ("" when unknown) — which is what the
+ * streaming response forwards to the client.
+ */
+async function resolveAll(
+  names: string[],
+  onPeople: (people: PersonData[], queries: string[]) => void = () => {},
+  { hints = {}, refresh = false }: ResolveOptions = {}
+): Promise<ResolveOutcome> {
+  const seen = new Set<string>();
+  const data: PersonData[] = [];
+  function accept(people: PersonData[], queries: string[]) {
+    const fresh = people.flatMap((person, i) => {
+      const key = normalizeName(person.name);
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [{ person, query: queries[i] }];
+    });
+    data.push(...fresh.map((f) => f.person));
+    if (fresh.length > 0) onPeople(fresh.map((f) => f.person), fresh.map((f) => f.query));
+  }
+
+  // Only cache misses go to the model — repeat names are answered from disk
+  const { hits, misses } = refresh
+    ? { hits: [], misses: names }
+    : await personCache.lookup(names);
+  accept(hits.map((h) => h.person), hits.map((h) => h.query));
+  if (misses.length === 0) {
+    return { data, providers: [], cached: hits.length, unresolved: [], ambiguous: [] };
+  }
+
+  const chunks = chunk(misses, CHUNK_SIZE);
+  const settled = await settleWithLimit(chunks, CONCURRENCY, async (batch) => {
+    const result = await resolveChunk(batch, hints);
+    // Cached under what was typed, so the same input hits next time. A
+    // refresh or a hinted answer waits for the user's confirmation (PUT)
+    // instead of replacing the shared entry straight away.
+    if (!refresh) {
+      await personCache.store(
+        result.data
+          .map((person, i) => ({ query: result.queries[i], person }))
+          .filter((e) => e.query !== "" && !hints[e.query]?.trim())
+      );
+    }
+    accept(result.data, result.queries);
+    return result;
+  });
+
+  const providers = new Set<ProviderId>();
+  const unresolved: UnresolvedName[] = [];
+  const ambiguous: AmbiguousName[] = [];
+  let failedChunks = 0;
+  let firstError: unknown;
+  settled.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      providers.add(result.value.provider);
+      unresolved.push(...result.value.unresolved);
+      ambiguous.push(...result.value.ambiguous);
+    } else {
+      // A failed chunk is retryable — report its names with the error behind it
+      const { error } = describeError(result.reason);
+      unresolved.push(...chunks[i].map((name) => ({ name, reason: error })));
+      failedChunks++;
+      firstError ??= result.reason;
+    }
   });
-  return message.content
-    .filter((block) => block.type === "text")
-    .map((block) => (block as { type: "text"; text: string }).text)
-    .join("");
+
+  const outcome: ResolveOutcome = {
+    data,
+    providers: [...providers],
+    cached: hits.length,
+    unresolved,
+    ambiguous,
+  };
+
+  if (failedChunks === chunks.length && hits.length === 0) {
+    // Every chunk failed and nothing was cached — surface the underlying error
+    outcome.error = describeError(firstError);
+  }
+  return outcome;
 }
 
 // ── Route handler ─────────────────────────────────────────────────────────────
 
-export async function POST(request: NextRequest) {
-  const openRouterKey = process.env.OPENROUTER_API_KEY;
-  const geminiKey     = process.env.GEMINI_API_KEY;
-  const anthropicKey  = process.env.ANTHROPIC_API_KEY;
+// Clients that send `Accept: application/x-ndjson` get one JSON object per line:
+//   {"type":"person","person":{…},"query":"…"}   as each person is resolved —
+//    query is the input it answers, omitted when unknown
+//   {"type":"done","providers":[…],"cached":n,"unresolved":[{"name","reason"}…],
+//    "ambiguous":[{"query","candidates":[…]}…]}
+//   {"type":"error","error":"…","status":n}   instead of "done" when nothing resolved
+const NDJSON = "application/x-ndjson";
 
-  if (!openRouterKey && !geminiKey && !anthropicKey) {
-    return NextResponse.json(
-      { error: "No API key configured. Add OPENROUTER_API_KEY, GEMINI_API_KEY, or ANTHROPIC_API_KEY to .env.local." },
-      { status: 500 }
-    );
-  }
+function isName(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
 
+export async function POST(request: NextRequest) {
   let names: string[];
+  let options: ResolveOptions;
   try {
     const body = await request.json();
     names = body.names;
     if (!Array.isArray(names) || names.length === 0) {
       return NextResponse.json({ error: "No names provided." }, { status: 400 });
     }
+    if (!names.every(isName)) {
+      return NextResponse.json({ error: "names must be non-empty strings." }, { status: 400 });
+    }
+    const { hints, refresh } = body;
+    if (hints !== undefined && (typeof hints !== "object" || hints === null || Array.isArray(hints)
+      || Object.values(hints).some((h) => typeof h !== "string"))) {
+      return NextResponse.json({ error: "hints must map names to strings." }, { status: 400 });
+    }
+    options = { hints, refresh: refresh === true };
   } catch {
     return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
   }
 
-  const userMessage = `Find biographical data for these people:\n${names.map((n, i) => `${i + 1}. ${n}`).join("\n")}`;
-
-  try {
-    // Priority: OpenRouter → Gemini → Anthropic
-    const rawText = openRouterKey
-      ? await callOpenRouter(openRouterKey, userMessage)
-      : geminiKey
-      ? await callGemini(geminiKey, userMessage)
-      : await callAnthropic(anthropicKey!, userMessage);
-
-    let data: PersonData[];
-    try {
-      // Strip any accidental markdown fences just in case
-      const cleaned = rawText
-        .replace(/^```(?:json)?\n?/m, "")
-        .replace(/\n?```$/m, "")
-        .trim();
-      data = JSON.parse(cleaned);
-
-      if (!Array.isArray(data)) throw new Error("Response was not an array");
-
-      // Basic shape validation
-      data = data.filter(
-        (item) =>
-          typeof item.name === "string" &&
-          typeof item.birth_year === "number" &&
-          (item.death_year === null || typeof item.death_year === "number") &&
-          typeof item.category === "string" &&
-          typeof item.approximate === "boolean"
-      );
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", rawText, parseError);
+  if (getConfiguredProviders().length === 0) {
+    // Without a provider only a fully cached request can be answered
+    const { misses } = await personCache.lookup(names);
+    if (misses.length > 0 || options.refresh) {
       return NextResponse.json(
-        { error: "Failed to parse AI response. Try again." },
-        { status: 502 }
+        { error: `No API key configured. Add ${providerEnvKeys().join(", ")} to .env.local.` },
+        { status: 500 }
       );
     }
+  }
 
-    if (data.length === 0) {
-      return NextResponse.json(
-        { error: "No valid people found. Check your input and try again." },
-        { status: 422 }
-      );
-    }
+  if (request.headers.get("accept")?.includes(NDJSON)) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (msg: object) => controller.enqueue(encoder.encode(JSON.stringify(msg) + "\n"));
+        try {
+          const { providers, cached, unresolved, ambiguous, error } = await resolveAll(names, (people, queries) => {
+            people.forEach((person, i) => send({ type: "person", person, ...(queries[i] ? { query: queries[i] } : {}) }));
+          }, options);
+          send(error
+            ? { type: "error", ...error }
+            : { type: "done", providers, cached, unresolved, ambiguous });
+        } catch (err) {
+          // An unexpected failure still ends the stream with an error line
+          console.error("Resolve stream failed:", err);
+          send({ type: "error", ...describeError(err) });
+        }
+        controller.close();
+      },
+    });
+    return new Response(stream, {
+      headers: { "Content-Type": `${NDJSON}; charset=utf-8`, "Cache-Control": "no-cache" },
+    });
+  }
+
+  const { data, providers, cached, unresolved, ambiguous, error } = await resolveAll(names, undefined, options);
+  if (error) {
+    return NextResponse.json({ error: error.error }, { status: error.status });
+  }
+  return NextResponse.json({ data, providers, cached, unresolved, ambiguous });
+}
 
-    return NextResponse.json({ data });
-  } catch (err) {
-    const error = err as Error & { status?: number };
-    const provider = openRouterKey ? "OpenRouter" : geminiKey ? "Gemini" : "Anthropic";
-    console.error(`${provider} API error:`, error);
+// Confirmed re-resolve: PUT with { query, person } stores the answer the user
+// accepted, replacing whatever the cache held for that input. The cache is
+// shared and this is unauthenticated by design — any client can overwrite an
+// entry, so a deployment open to untrusted users should put it behind auth.
+export async function PUT(request: NextRequest) {
+  let query: unknown;
+  let person: PersonData | null;
+  try {
+    const body = await request.json();
+    query = body.query;
+    person = toPerson(body.person);
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
+  }
+  if (typeof query !== "string" || !query.trim()) {
+    return NextResponse.json({ error: "query must be a non-empty string." }, { status: 400 });
+  }
+  if (!person) {
+    return NextResponse.json({ error: "person is not valid." }, { status: 400 });
+  }
 
-    if (error.status === 401) {
-      return NextResponse.json({ error: "Invalid API key." }, { status: 401 });
-    }
-    if (error.status === 429) {
-      return NextResponse.json(
-        { error: "Rate limit reached. Try again shortly." },
-        { status: 429 }
-      );
-    }
+  await personCache.store([{ query, person }]);
+  return NextResponse.json({ stored: 1 });
+}
+
+// Manual purge: DELETE with { names: [...] } to drop specific people,
+// or with no body to clear the whole cache. Needs
+// `Authorization: Bearer $RESOLVE_ADMIN_TOKEN`; disabled when that is unset.
+export async function DELETE(request: NextRequest) {
+  const token = process.env.RESOLVE_ADMIN_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: "Cache purging is disabled. Set RESOLVE_ADMIN_TOKEN to enable it." }, { status: 403 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${token}`) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
 
-    return NextResponse.json(
-      { error: error.message ?? "Unexpected error calling the AI." },
-      { status: 500 }
-    );
+  let names: string[] | undefined;
+  try {
+    const text = await request.text();
+    if (text) {
+      const body = JSON.parse(text);
+      if (body.names !== undefined && !(Array.isArray(body.names) && body.names.every(isName))) {
+        return NextResponse.json({ error: "names must be an array of non-empty strings." }, { status: 400 });
+      }
+      names = body.names;
+    }
+  } catch {
+    return NextResponse.json({ error: "Invalid request body." }, { status: 400 });
   }
+
+  const removed = await personCache.purge(names);
+  return NextResponse.json({ removed });
 }
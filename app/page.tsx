@@ -8,16 +8,90 @@ import TimelineChart from "@/components/TimelineChart";
 import ChartSkeleton from "@/components/ChartSkeleton";
 import LoadingAnimation from "@/components/LoadingAnimation";
 import PersonModal from "@/components/PersonModal";
+import DisambiguationPicker from "@/components/DisambiguationPicker";
+import ChartControls from "@/components/ChartControls";
+import ChartSwitcher from "@/components/ChartSwitcher";
+import UndoToast from "@/components/UndoToast";
+import ImportReview from "@/components/ImportReview";
+import BulkPreview from "@/components/BulkPreview";
+import SharedBanner from "@/components/SharedBanner";
 import { useLocalStorage } from "@/lib/useLocalStorage";
-import { TimelineData, AppState, PersonData } from "@/types/timeline";
+import { useTimelineLibrary } from "@/lib/useTimelineLibrary";
+import { useUndoHistory } from "@/lib/useUndoHistory";
+import { readNdjson } from "@/lib/ndjson";
+import { normalizeName, splitNameList, namesFromCsv } from "@/lib/names";
+import { personKey } from "@/lib/chartUtils";
+import { serializeChart, rasterizeChart, downloadBlob, exportBaseName } from "@/lib/exportChart";
+import { buildShareUrl, shareTokenFromHash, decodeShareToken, SharedTimeline } from "@/lib/shareLink";
+import {
+  toJson,
+  toCsv,
+  parseTimelineFile,
+  formatFromFileName,
+  ImportResult,
+  TimelineFileFormat,
+} from "@/lib/timelineFile";
+import {
+  TimelineData,
+  AppState,
+  PersonData,
+  ResolveStreamMessage,
+  UnresolvedName,
+  AmbiguousName,
+  ReResolveOutcome,
+  ChartLayout,
+  SortKey,
+} from "@/types/timeline";
+
+// Merge new people into an existing chart. The same person again (name and
+// birth year) is skipped; a different person sharing a charted name — the
+// other John Adams — is added alongside, and the chart tells them apart. File
+// imports pass `corrections`: a row for the one charted person of that name
+// replaces them, so fixed dates aren't read as a namesake.
+function mergePeople(prev: TimelineData | null, incoming: PersonData[], corrections = false): TimelineData {
+  const merged = [...(prev ?? [])];
+  for (const person of incoming) {
+    const same = merged.findIndex((p) => personKey(p) === personKey(person));
+    if (same !== -1) {
+      if (corrections) merged[same] = person;
+      continue;
+    }
+    const namesakes = merged.filter((p) => p.name === person.name);
+    const correction = corrections
+      && namesakes.length === 1
+      && incoming.filter((p) => p.name === person.name).length === 1;
+    if (correction) merged[merged.indexOf(namesakes[0])] = person;
+    else merged.push(person);
+  }
+  return merged;
+}
 
 export default function Home() {
   const [names, setNames] = useLocalStorage<string[]>("tg_pending_names", []);
+  // Reasons for names the last generate couldn't place — keyed by pending name
+  const [unresolved, setUnresolved] = useLocalStorage<Record<string, string>>("tg_unresolved_names", {});
+  // Ambiguous names awaiting a pick, and past picks keyed by normalized input
+  const [ambiguous, setAmbiguous] = useState<AmbiguousName[]>([]);
+  const [choices, setChoices] = useLocalStorage<Record<string, PersonData>>("tg_disambiguation_choices", {});
+  // The input each charted person was resolved from, keyed by personKey — the
+  // server caches by what was typed, so a confirmed re-resolve is stored there
+  const [queries, setQueries] = useLocalStorage<Record<string, string>>("tg_person_queries", {});
   const [appState, setAppState] = useState<AppState>("landing");
-  const [timelineData, setTimelineData, isHydrated] = useLocalStorage<TimelineData | null>(
-    "tg_timeline_data",
-    null
-  );
+  // The active chart from the timeline library — each chart persists under its own key
+  const library = useTimelineLibrary();
+  const { data: timelineData, setData: setTimelineData, isHydrated } = library;
+  // Edits to the active chart — history starts over when switching charts
+  const history = useUndoHistory(timelineData, setTimelineData, library.activeId);
+  const [undoToast, setUndoToast] = useState<{ message: string; id: number } | null>(null);
+  // A parsed file awaiting merge/replace confirmation
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; result: ImportResult } | null>(null);
+  // A pasted or dropped name list awaiting review before it joins the queue
+  const [pendingBulk, setPendingBulk] = useState<{ source: string; names: string[]; skipped: number } | null>(null);
+  // A chart opened from a share link — shown read-only, never written to the library
+  const [shared, setShared] = useState<SharedTimeline | null>(null);
+  const chartData = shared ? shared.data : timelineData;
+  const [chartLayout, setChartLayout] = useLocalStorage<ChartLayout>("tg_chart_layout", "flat");
+  const [sortKey, setSortKey] = useLocalStorage<SortKey>("tg_chart_sort", "birth");
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [namesHidden, setNamesHidden] = useState(false);
   const [selectedPerson, setSelectedPerson] = useState<PersonData | null>(null);
@@ -27,6 +101,7 @@ export default function Home() {
   const [showSkeleton, setShowSkeleton] = useState(false);
   const [skeletonExiting, setSkeletonExiting] = useState(false);
   const hasReceivedDataRef = useRef(false);
+  const chartSvgRef = useRef<SVGSVGElement>(null);
 
   // Landing transition
   const [landingVisible, setLandingVisible] = useState(false);
@@ -47,6 +122,24 @@ export default function Home() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isHydrated]);
 
+  // Share links open straight onto the chart, skipping the landing screen
+  useEffect(() => {
+    const token = shareTokenFromHash(window.location.hash);
+    if (!token) return;
+    decodeShareToken(token)
+      .then(setShared)
+      .catch((err: Error) => {
+        setErrorMessage(err.message);
+        setAppState("error");
+        window.history.replaceState(null, "", window.location.pathname);
+      })
+      .finally(() => {
+        setAppState((prev) => (prev === "landing" ? "input" : prev));
+        setLandingVisible(false);
+        setAppVisible(true);
+      });
+  }, []);
+
   function handleBegin() {
     setLandingVisible(false);
     setTimeout(() => {
@@ -60,23 +153,257 @@ export default function Home() {
     setNamesHidden(false); // reveal list when user adds a name after generating
   }
 
+  // Manual entries take the generate merge path, minus the resolver
+  function handleAddPerson(person: PersonData) {
+    const taken = (p: PersonData) => normalizeName(p.name) === normalizeName(person.name) && p.birth_year === person.birth_year;
+    if (timelineData?.some(taken)) {
+      setErrorMessage(`${person.name} is already on the chart.`);
+      setAppState("error");
+      return;
+    }
+    history.checkpoint();
+    setTimelineData((prev) => mergePeople(prev, [{ ...person, overridden: true }]));
+    hasReceivedDataRef.current = true;
+    setErrorMessage(null);
+    setAppState("input");
+  }
+
+  function handleBulkText(text: string, source: string) {
+    const listed = /\.csv$/i.test(source) ? namesFromCsv(text) : splitNameList(text);
+    const label = source === "clipboard" ? "the pasted text" : source;
+    if (listed.length === 0) {
+      setErrorMessage(`No names found in ${label}.`);
+      setAppState("error");
+      return;
+    }
+    // Skip anyone already queued or already on the chart
+    const known = new Set([...names, ...(timelineData ?? []).map((p) => p.name)].map(normalizeName));
+    const fresh = listed.filter((n) => !known.has(normalizeName(n)));
+    if (fresh.length === 0) {
+      setErrorMessage(`Everyone in ${label} is already listed.`);
+      setAppState("error");
+      return;
+    }
+    setErrorMessage(null);
+    setPendingBulk({ source, names: fresh, skipped: listed.length - fresh.length });
+  }
+
+  function handleConfirmBulk(selected: string[]) {
+    setNames((prev) => [...prev, ...selected.filter((n) => !prev.includes(n))]);
+    setNamesHidden(false);
+    setPendingBulk(null);
+  }
+
   function handleRemoveName(name: string) {
     setNames((prev) => prev.filter((n) => n !== name));
+    setUnresolved((prev) => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+  }
+
+  // Destructive edits offer a one-click undo
+  function offerUndo(message: string) {
+    setUndoToast((prev) => ({ message, id: (prev?.id ?? 0) + 1 }));
+  }
+
+  function handleUndo() {
+    history.undo();
+    setSelectedPerson(null);
+    setUndoToast(null);
+  }
+
+  function handleRedo() {
+    history.redo();
+    setSelectedPerson(null);
+    setUndoToast(null);
   }
 
-  function handleRemovePersonFromChart(name: string) {
+  // Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes — text fields keep
+  // their native undo
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || shared) return;
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  function handleRemovePersonFromChart(person: PersonData) {
+    history.checkpoint();
+    offerUndo(`Removed ${person.name}`);
     setTimelineData((prev) => {
       if (!prev) return null;
-      const next = prev.filter((p) => p.name !== name);
+      const next = prev.filter((p) => personKey(p) !== personKey(person));
       return next.length === 0 ? null : next;
     });
-    if (selectedPerson?.name === name) setSelectedPerson(null);
+    if (selectedPerson && personKey(selectedPerson) === personKey(person)) setSelectedPerson(null);
+  }
+
+  // Hand edits replace the person in place and are flagged, so a re-resolve
+  // warns before replacing them
+  function handleEditPerson(original: PersonData, updated: PersonData) {
+    history.checkpoint();
+    setTimelineData((prev) => prev?.map((p) => (personKey(p) === personKey(original) ? updated : p)) ?? null);
+    setSelectedPerson(updated);
+    const query = queries[personKey(original)];
+    if (query) rememberQueries([[updated, query]]);
+  }
+
+  function rememberQueries(entries: [PersonData, string][]) {
+    setQueries((prev) => ({ ...prev, ...Object.fromEntries(entries.map(([p, q]) => [personKey(p), q])) }));
+  }
+
+  // Ask the resolver again for one person, bypassing its cache; the modal
+  // shows the answer as a diff and applies it through handleApplyReResolve
+  async function handleReResolve(name: string, hint: string): Promise<ReResolveOutcome> {
+    const res = await fetch("/api/resolve", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        names: [name],
+        hints: hint.trim() ? { [name]: hint.trim() } : undefined,
+        refresh: true,
+      }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json.error ?? "Something went wrong.");
+
+    const person: PersonData | undefined = json.data?.[0];
+    if (person) return { kind: "person", person };
+    const choice: AmbiguousName | undefined = json.ambiguous?.[0];
+    if (choice) return { kind: "candidates", candidates: choice.candidates };
+    const dropped: UnresolvedName | undefined = json.unresolved?.[0];
+    return { kind: "unresolved", reason: dropped?.reason ?? "No answer for this name." };
+  }
+
+  // The confirmed answer replaces the chart entry. Unhinted answers also
+  // replace the shared cache entry for the name the user typed — a hinted one
+  // is this chart's choice only, and rows with no known input (manual entries,
+  // imports) have no cache entry to fix.
+  function handleApplyReResolve(original: PersonData, updated: PersonData, hint: string) {
+    handleEditPerson(original, updated);
+    const query = queries[personKey(original)];
+    if (hint.trim() || !query) return;
+    fetch("/api/resolve", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, person: updated }),
+    }).catch(() => {}); // the chart is already updated; the cache can catch up later
   }
 
   function handleClearChart() {
+    if (timelineData) {
+      history.checkpoint();
+      offerUndo("Chart cleared");
+    }
     setTimelineData(null);
     setSelectedPerson(null);
     setNames([]);
+    setUnresolved({});
+  }
+
+  async function handleExportSvg() {
+    const svg = chartSvgRef.current;
+    if (!svg) return;
+    const blob = new Blob([await serializeChart(svg)], { type: "image/svg+xml" });
+    downloadBlob(blob, `${exportBaseName()}.svg`);
+  }
+
+  async function handleExportPng(scale: number) {
+    const svg = chartSvgRef.current;
+    if (!svg) return;
+    try {
+      downloadBlob(await rasterizeChart(svg, scale), `${exportBaseName()}@${scale}x.png`);
+    } catch {
+      setErrorMessage("Couldn't render the PNG. Try the SVG export instead.");
+      setAppState("error");
+    }
+  }
+
+  // Name of the chart on screen — the shared one while viewing a link
+  function currentChartName(): string {
+    if (shared) return shared.name;
+    return library.charts.find((c) => c.id === library.activeId)?.name ?? "timeline";
+  }
+
+  async function handleCopyLink(): Promise<boolean> {
+    if (!chartData) return false;
+    try {
+      const url = await buildShareUrl(currentChartName(), chartData);
+      await navigator.clipboard.writeText(url);
+      return true;
+    } catch {
+      setErrorMessage("Couldn't copy the link. Your browser may have blocked clipboard access.");
+      setAppState("error");
+      return false;
+    }
+  }
+
+  function handleForkShared() {
+    if (!shared) return;
+    library.createChart(shared.name, shared.data);
+    hasReceivedDataRef.current = true;
+    handleCloseShared();
+  }
+
+  function handleCloseShared() {
+    window.history.replaceState(null, "", window.location.pathname);
+    setShared(null);
+    setSelectedPerson(null);
+  }
+
+  function handleExportData(format: TimelineFileFormat) {
+    if (!timelineData) return;
+    const chartName = currentChartName();
+    const slug = chartName.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "timeline";
+    const blob = format === "json"
+      ? new Blob([toJson(timelineData)], { type: "application/json" })
+      : new Blob([toCsv(timelineData)], { type: "text/csv" });
+    downloadBlob(blob, `${slug}.${format}`);
+  }
+
+  async function handleImportFile(file: File) {
+    setErrorMessage(null);
+    try {
+      const text = await file.text();
+      const result = parseTimelineFile(text, formatFromFileName(file.name, text));
+      setPendingImport({ fileName: file.name, result });
+    } catch (err) {
+      setErrorMessage(err instanceof Error ? err.message : "Couldn't read that file.");
+      setAppState("error");
+    }
+  }
+
+  function handleConfirmImport(mode: "merge" | "replace") {
+    if (!pendingImport) return;
+    const { people } = pendingImport.result;
+    history.checkpoint();
+    if (mode === "replace" && timelineData) offerUndo("Chart replaced from file");
+    setTimelineData((prev) => (mode === "replace" ? people : mergePeople(prev, people, true)));
+    setSelectedPerson(null);
+    hasReceivedDataRef.current = true;
+    setPendingImport(null);
+  }
+
+  // Anything tied to the previous chart's rows is dropped on switch
+  function withChartSwitch(action: () => void) {
+    setSelectedPerson(null);
+    setErrorMessage(null);
+    setUndoToast(null);
+    setPendingImport(null);
+    action();
   }
 
   function dismissSkeleton() {
@@ -84,9 +411,55 @@ export default function Home() {
     setTimeout(() => setShowSkeleton(false), 500);
   }
 
+  function handleChooseCandidate(query: string, person: PersonData) {
+    setChoices((prev) => ({ ...prev, [normalizeName(query)]: person }));
+    setAmbiguous((prev) => prev.filter((a) => a.query !== query));
+    handleRemoveName(query);
+    rememberQueries([[person, query]]);
+    history.checkpoint();
+    setTimelineData((prev) => mergePeople(prev, [person]));
+    hasReceivedDataRef.current = true;
+  }
+
+  // A skipped name stays queued, flagged as ambiguous, for a later generate
+  function handleSkipCandidate(query: string) {
+    setAmbiguous((prev) => prev.filter((a) => a.query !== query));
+  }
+
   async function handleGenerate() {
     if (names.length === 0) return;
 
+    // Names the user already disambiguated skip the resolver entirely
+    const remembered = names
+      .map((n) => choices[normalizeName(n)])
+      .filter((p): p is PersonData => p !== undefined);
+    const toResolve = names.filter((n) => !choices[normalizeName(n)]);
+
+    // The whole generate — remembered picks plus every streamed person —
+    // undoes as a single step, checkpointed at the first merge
+    let checkpointed = false;
+    const mergeIn = (people: PersonData[]) => {
+      if (!checkpointed) {
+        history.checkpoint();
+        checkpointed = true;
+      }
+      setTimelineData((prev) => mergePeople(prev, people));
+    };
+
+    if (remembered.length > 0) {
+      rememberQueries(names.flatMap((n) => {
+        const p = choices[normalizeName(n)];
+        return p ? [[p, n] as [PersonData, string]] : [];
+      }));
+      mergeIn(remembered);
+      hasReceivedDataRef.current = true;
+    }
+    if (toResolve.length === 0) {
+      setNames([]);
+      setUnresolved({});
+      return;
+    }
+
     // Show the skeleton chart frame on the very first generation
     const isFirstGen = !hasReceivedDataRef.current;
     if (isFirstGen) {
@@ -95,42 +468,88 @@ export default function Home() {
     }
 
     setNamesHidden(true); // immediate — names vanish before API returns
+    setUnresolved({});
     setAppState("loading");
     setErrorMessage(null);
 
     try {
       const res = await fetch("/api/resolve", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ names }),
+        headers: { "Content-Type": "application/json", "Accept": "application/x-ndjson" },
+        body: JSON.stringify({ names: toResolve }),
       });
 
-      const json = await res.json();
-
+      // Validation / configuration errors come back as plain JSON before streaming
       if (!res.ok) {
+        const json = await res.json().catch(() => ({}));
         setErrorMessage(json.error ?? "Something went wrong.");
         setAppState("error");
         if (isFirstGen) dismissSkeleton();
         return;
       }
 
-      // Fade skeleton out as real chart fades in
-      if (isFirstGen) dismissSkeleton();
-      hasReceivedDataRef.current = true;
-
-      setTimelineData((prev) => {
-        if (!prev) return json.data;
-        // Merge new people into existing chart, skipping exact name duplicates
-        const existingNames = new Set(prev.map((p) => p.name));
-        const fresh = json.data.filter((p: import("@/types/timeline").PersonData) => !existingNames.has(p.name));
-        return [...prev, ...fresh];
+      // People stream in one per line — each merge is a render pass, so bars
+      // arriving together share the chart's per-name stagger
+      let dropped: UnresolvedName[] = [];
+      let toChoose: AmbiguousName[] = [];
+      let streamError = null as string | null;
+      let finished = false as boolean;
+      const answered = new Set<string>(); // normalized inputs that arrived
+      await readNdjson<ResolveStreamMessage>(res, (msg) => {
+        if (msg.type === "person") {
+          // Fade skeleton out as the first real bar fades in
+          if (isFirstGen && !hasReceivedDataRef.current) dismissSkeleton();
+          hasReceivedDataRef.current = true;
+          if (msg.query) {
+            answered.add(normalizeName(msg.query));
+            rememberQueries([[msg.person, msg.query]]);
+          }
+          mergeIn([msg.person]);
+        } else if (msg.type === "done") {
+          finished = true;
+          dropped = msg.unresolved;
+          toChoose = msg.ambiguous;
+        } else {
+          streamError = msg.error;
+        }
       });
-      setNames([]); // clear so old names don't reappear on next input
+
+      if (streamError) {
+        setErrorMessage(streamError);
+        setAppState("error");
+        if (isFirstGen && !hasReceivedDataRef.current) dismissSkeleton();
+        return;
+      }
+
+      // A stream cut off before "done" (server crash, proxy timeout) — keep
+      // every name that didn't arrive queued so it can be generated again
+      if (!finished) {
+        const left = toResolve.filter((n) => !answered.has(normalizeName(n)));
+        setNames(left);
+        setNamesHidden(false);
+        setErrorMessage("The connection dropped before every name came back. Generate again for the rest.");
+        setAppState("error");
+        if (isFirstGen && !hasReceivedDataRef.current) dismissSkeleton();
+        return;
+      }
+
+      // Clear resolved names so they don't reappear on next input; names the
+      // resolver dropped stay in the list, flagged with the reason. Ambiguous
+      // names stay too until a candidate is picked, so skipping one keeps it.
+      if (isFirstGen && !hasReceivedDataRef.current) dismissSkeleton();
+      const kept: UnresolvedName[] = [
+        ...dropped,
+        ...toChoose.map((a) => ({ name: a.query, reason: "several people match — pick one or add detail" })),
+      ];
+      setNames(kept.map((u) => u.name));
+      setUnresolved(Object.fromEntries(kept.map((u) => [u.name, u.reason])));
+      if (kept.length > 0) setNamesHidden(false);
+      setAmbiguous(toChoose);
       setAppState("input");
     } catch {
       setErrorMessage("Network error. Check your connection and try again.");
       setAppState("error");
-      if (isFirstGen) dismissSkeleton();
+      if (isFirstGen && !hasReceivedDataRef.current) dismissSkeleton();
     }
   }
 
@@ -148,38 +567,67 @@ export default function Home() {
     >
       <ThemeToggle />
 
+      {/* ── Shared link banner — replaces the library chrome while viewing ── */}
+      {shared && (
+        <SharedBanner
+          name={shared.name}
+          count={shared.data.length}
+          onFork={handleForkShared}
+          onClose={handleCloseShared}
+        />
+      )}
+
       {/* ── Clear chart button (top-left, mirrors ThemeToggle) ───────────────── */}
-      <button
-        onClick={handleClearChart}
-        title="Clear chart"
-        aria-label="Clear chart"
-        style={{
-          position: "fixed",
-          top: "1.25rem",
-          left: "1.25rem",
-          zIndex: 100,
-          background: "none",
-          border: "none",
-          cursor: "pointer",
-          color: "var(--fg-muted)",
-          padding: "4px",
-          display: "flex",
-          alignItems: "center",
-          justifyContent: "center",
-          opacity: timelineData ? 0.5 : 0,
-          pointerEvents: timelineData ? "auto" : "none",
-          transition: "opacity 0.3s ease",
-        }}
-        onMouseEnter={(e) => { if (timelineData) e.currentTarget.style.opacity = "1"; }}
-        onMouseLeave={(e) => { e.currentTarget.style.opacity = timelineData ? "0.5" : "0"; }}
-      >
-        {/* Eraser icon — fits the ink-on-paper metaphor */}
-        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
-          <path d="m7 21-4.3-4.3c-1-1-1-2.5 0-3.4l9.6-9.6c1-1 2.5-1 3.4 0l5.6 5.6c1 1 1 2.5 0 3.4L13 21" />
-          <path d="M22 21H7" />
-          <path d="m5 11 9 9" />
-        </svg>
-      </button>
+      {!shared && (
+        <button
+          onClick={handleClearChart}
+          title="Clear chart"
+          aria-label="Clear chart"
+          style={{
+            position: "fixed",
+            top: "1.25rem",
+            left: "1.25rem",
+            zIndex: 100,
+            background: "none",
+            border: "none",
+            cursor: "pointer",
+            color: "var(--fg-muted)",
+            padding: "4px",
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            opacity: timelineData ? 0.5 : 0,
+            pointerEvents: timelineData ? "auto" : "none",
+            transition: "opacity 0.3s ease",
+          }}
+          onMouseEnter={(e) => { if (timelineData) e.currentTarget.style.opacity = "1"; }}
+          onMouseLeave={(e) => { e.currentTarget.style.opacity = timelineData ? "0.5" : "0"; }}
+        >
+          {/* Eraser icon — fits the ink-on-paper metaphor */}
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+            <path d="m7 21-4.3-4.3c-1-1-1-2.5 0-3.4l9.6-9.6c1-1 2.5-1 3.4 0l5.6 5.6c1 1 1 2.5 0 3.4L13 21" />
+            <path d="M22 21H7" />
+            <path d="m5 11 9 9" />
+          </svg>
+        </button>
+      )}
+
+      {/* ── Timeline library switcher (top-left, beside the eraser) ───────── */}
+      {appState !== "landing" && !shared && (
+        <ChartSwitcher
+          charts={library.charts}
+          activeId={library.activeId}
+          disabled={appState === "loading"}
+          onSwitch={(id) => withChartSwitch(() => library.switchChart(id))}
+          onCreate={(name) => withChartSwitch(() => library.createChart(name))}
+          onDuplicate={(id) => withChartSwitch(() => library.duplicateChart(id))}
+          onRename={library.renameChart}
+          onDelete={(id) => withChartSwitch(() => library.deleteChart(id))}
+          onImport={handleImportFile}
+          onExport={handleExportData}
+          canExport={!!timelineData}
+        />
+      )}
 
       {/* ── Landing screen ───────────────────────────────────────────────── */}
       {appState === "landing" && (
@@ -278,36 +726,89 @@ export default function Home() {
           {showSkeleton && <ChartSkeleton exiting={skeletonExiting} />}
 
           {/* Chart — always visible, even while loading new names */}
-          {timelineData && (
+          {chartData && (
             <TimelineChart
-              data={timelineData}
+              key={shared ? "shared" : library.activeId}
+              data={chartData}
+              layout={chartLayout}
+              sortKey={sortKey}
               onPersonClick={(person, color) => {
                 setSelectedPerson(person);
                 setSelectedColor(color);
               }}
-              onRemovePerson={handleRemovePersonFromChart}
+              onRemovePerson={shared ? undefined : handleRemovePersonFromChart}
+              svgRef={chartSvgRef}
             />
           )}
 
+          {/* Layout controls — bottom-left, only once there is a chart */}
+          <ChartControls
+            layout={chartLayout}
+            onLayoutChange={setChartLayout}
+            sortKey={sortKey}
+            onSortChange={setSortKey}
+            onExportSvg={handleExportSvg}
+            onExportPng={handleExportPng}
+            onCopyLink={handleCopyLink}
+            canPrint={!shared}
+            history={shared ? undefined : {
+              onUndo: handleUndo,
+              onRedo: handleRedo,
+              canUndo: history.canUndo,
+              canRedo: history.canRedo,
+            }}
+            visible={!!chartData}
+          />
+
           {/* Loading animation — sailing ship on waves (hidden for now, may restore later) */}
           {/* {appState === "loading" && <LoadingAnimation />} */}
 
-          {/* Input bar — always floating above chart */}
-          <InputBar
-            onSubmitName={handleAddName}
-            onGenerate={handleGenerate}
-            isLoading={isLoading}
-            disabled={isLoading}
-          />
-
-          {/* Name list — fades out after generate */}
-          <NameList
-            names={names}
-            onRemove={handleRemoveName}
-            onGenerate={handleGenerate}
-            isLoading={isLoading}
-            hidden={namesHidden}
-          />
+          {/* Input chrome — hidden while viewing a shared, read-only chart */}
+          {!shared && (
+            <>
+              {/* Input bar — always floating above chart */}
+              <InputBar
+                onSubmitName={handleAddName}
+                onSubmitPerson={handleAddPerson}
+                onBulkText={handleBulkText}
+                onGenerate={handleGenerate}
+                isLoading={isLoading}
+                disabled={isLoading}
+              />
+
+              {/* Disambiguation — one ambiguous name at a time, before it lands on the chart */}
+              {ambiguous.length > 0 && (
+                <DisambiguationPicker
+                  pending={ambiguous[0]}
+                  remaining={ambiguous.length - 1}
+                  onChoose={handleChooseCandidate}
+                  onSkip={handleSkipCandidate}
+                />
+              )}
+
+              {/* Name list — fades out after generate */}
+              <NameList
+                names={names}
+                unresolved={unresolved}
+                onRemove={handleRemoveName}
+                onGenerate={handleGenerate}
+                isLoading={isLoading}
+                hidden={namesHidden || ambiguous.length > 0 || !!pendingBulk}
+              />
+
+              {/* Bulk list review — pasted or dropped names, before queueing */}
+              {pendingBulk && (
+                <BulkPreview
+                  key={`${pendingBulk.source}-${pendingBulk.names.join("|")}`}
+                  source={pendingBulk.source}
+                  names={pendingBulk.names}
+                  skipped={pendingBulk.skipped}
+                  onConfirm={handleConfirmBulk}
+                  onCancel={() => setPendingBulk(null)}
+                />
+              )}
+            </>
+          )}
 
           {/* Error */}
           {appState === "error" && errorMessage && (
@@ -330,7 +831,7 @@ export default function Home() {
           )}
 
           {/* Empty state — only shown before first generate */}
-          {!timelineData && names.length === 0 && (
+          {!chartData && names.length === 0 && (
             <div
               style={{
                 position: "fixed",
@@ -353,13 +854,37 @@ export default function Home() {
           )}
         </div>
       )}
+      {/* Import review — valid rows and skipped rows, then merge or replace */}
+      {pendingImport && (
+        <ImportReview
+          fileName={pendingImport.fileName}
+          result={pendingImport.result}
+          hasChart={!!timelineData}
+          onConfirm={handleConfirmImport}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Undo toast — after removing a person or clearing the chart */}
+      {undoToast && (
+        <UndoToast
+          message={undoToast.message}
+          id={undoToast.id}
+          onUndo={handleUndo}
+          onDismiss={() => setUndoToast(null)}
+        />
+      )}
+
       {/* Person modal — opens on bar click */}
       {selectedPerson && (
         <PersonModal
           person={selectedPerson}
           barColor={selectedColor}
-          allData={timelineData ?? []}
+          allData={chartData ?? []}
           onClose={() => setSelectedPerson(null)}
+          onSave={shared ? undefined : (updated) => handleEditPerson(selectedPerson, updated)}
+          onReResolve={shared ? undefined : (hint) => handleReResolve(selectedPerson.name, hint)}
+          onReResolveApply={(updated, hint) => handleApplyReResolve(selectedPerson, updated, hint)}
         />
       )}
     </main>
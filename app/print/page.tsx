@@ -0,0 +1,167 @@
+"use client";
+
+import Link from "next/link";
+import PrintPoster from "@/components/PrintPoster";
+import { useLocalStorage } from "@/lib/useLocalStorage";
+import { useTimelineLibrary } from "@/lib/useTimelineLibrary";
+import { SortKey, PrintOptions } from "@/types/timeline";
+
+const DEFAULT_OPTIONS: PrintOptions = {
+  paper: "a4",
+  orientation: "landscape",
+  fit: "paginate",
+  title: "A Chart of Biography",
+};
+
+const PAPERS: { key: PrintOptions["paper"]; label: string }[] = [
+  { key: "a4",     label: "A4"     },
+  { key: "a3",     label: "A3"     },
+  { key: "letter", label: "Letter" },
+];
+
+const controlStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.575rem",
+  letterSpacing: "0.2em",
+  textTransform: "uppercase",
+  color: "var(--fg)",
+  padding: "0.25rem 0",
+  outline: "none",
+};
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "0.5rem",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.575rem",
+  letterSpacing: "0.2em",
+  textTransform: "uppercase",
+  color: "var(--fg-muted)",
+  userSelect: "none",
+};
+
+export default function PrintPage() {
+  // Prints whichever library chart is active on the main page
+  const { data: timelineData, isHydrated } = useTimelineLibrary();
+  const [sortKey] = useLocalStorage<SortKey>("tg_chart_sort", "birth");
+  const [options, setOptions] = useLocalStorage<PrintOptions>("tg_print_options", DEFAULT_OPTIONS);
+
+  function update<K extends keyof PrintOptions>(key: K, value: PrintOptions[K]) {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  }
+
+  return (
+    <>
+      {/* Paper size for the browser's print dialog — follows the toolbar */}
+      <style>{`@page { size: ${options.paper === "letter" ? "letter" : options.paper.toUpperCase()} ${options.orientation}; margin: 0; }`}</style>
+
+      {/* ── Toolbar — screen only ─────────────────────────────────────────── */}
+      <header
+        className="print-hidden"
+        style={{
+          position: "fixed",
+          top: 0,
+          left: 0,
+          right: 0,
+          zIndex: 10,
+          display: "flex",
+          alignItems: "center",
+          flexWrap: "wrap",
+          gap: "1.75rem",
+          padding: "1rem 1.25rem",
+          backgroundColor: "var(--bg)",
+          borderBottom: "1px solid var(--border)",
+        }}
+      >
+        <Link href="/" style={{ ...labelStyle, textDecoration: "none", opacity: 0.7 }}>
+          ← Chart
+        </Link>
+
+        <label style={labelStyle}>
+          Title
+          <input
+            value={options.title}
+            onChange={(e) => update("title", e.target.value)}
+            style={{ ...controlStyle, textTransform: "none", letterSpacing: "0.05em", width: "14rem" }}
+          />
+        </label>
+
+        <label style={labelStyle}>
+          Paper
+          <select
+            value={options.paper}
+            onChange={(e) => update("paper", e.target.value as PrintOptions["paper"])}
+            style={{ ...controlStyle, cursor: "pointer" }}
+          >
+            {PAPERS.map(({ key, label }) => (
+              <option key={key} value={key} style={{ backgroundColor: "var(--bg)" }}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={labelStyle}>
+          Orientation
+          <select
+            value={options.orientation}
+            onChange={(e) => update("orientation", e.target.value as PrintOptions["orientation"])}
+            style={{ ...controlStyle, cursor: "pointer" }}
+          >
+            <option value="landscape" style={{ backgroundColor: "var(--bg)" }}>Landscape</option>
+            <option value="portrait" style={{ backgroundColor: "var(--bg)" }}>Portrait</option>
+          </select>
+        </label>
+
+        <label style={labelStyle}>
+          Pages
+          <select
+            value={options.fit}
+            onChange={(e) => update("fit", e.target.value as PrintOptions["fit"])}
+            style={{ ...controlStyle, cursor: "pointer" }}
+          >
+            <option value="paginate" style={{ backgroundColor: "var(--bg)" }}>Paginate</option>
+            <option value="fit" style={{ backgroundColor: "var(--bg)" }}>Fit to one</option>
+          </select>
+        </label>
+
+        <button
+          onClick={() => window.print()}
+          disabled={!timelineData}
+          style={{ ...controlStyle, borderBottomColor: "var(--accent)", cursor: "pointer", marginLeft: "auto" }}
+        >
+          Print
+        </button>
+      </header>
+
+      {/* ── Sheets — scroll on screen, one per printed page ────────────────── */}
+      <main
+        className="print-sheets"
+        style={{
+          position: "fixed",
+          inset: 0,
+          overflow: "auto",
+          display: "flex",
+          flexDirection: "column",
+          alignItems: "center",
+          gap: "2rem",
+          padding: "6rem 1.25rem 3rem",
+          backgroundColor: "var(--bg-subtle)",
+        }}
+      >
+        {isHydrated && timelineData && (
+          <PrintPoster data={timelineData} sortKey={sortKey} options={options} />
+        )}
+        {isHydrated && !timelineData && (
+          <p style={{ ...labelStyle, opacity: 0.6, marginTop: "4rem" }}>
+            Nothing to print yet — generate a chart first.
+          </p>
+        )}
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,211 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { dedupeNames } from "@/lib/names";
+
+interface BulkPreviewProps {
+  source: string; // "clipboard" or a file name
+  names: string[];
+  skipped: number; // duplicates of queued names or people already charted
+  onConfirm: (names: string[]) => void;
+  onCancel: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.6875rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.08em",
+  padding: "0 0 0.2rem",
+  cursor: "pointer",
+};
+
+const rowActionStyle: React.CSSProperties = {
+  ...buttonStyle,
+  borderBottom: "none",
+  fontSize: "0.5625rem",
+  opacity: 0.6,
+  flexShrink: 0,
+};
+
+// Review a pasted or dropped list before it joins the queue — entries can
+// be struck off, corrected, or joined back together where the split went wrong
+export default function BulkPreview({ source, names, skipped, onConfirm, onCancel }: BulkPreviewProps) {
+  const [visible, setVisible] = useState(false);
+  const [entries, setEntries] = useState(names);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [editing, setEditing] = useState<{ index: number; text: string } | null>(null);
+  // Edits and joins can leave two entries naming the same person
+  const kept = dedupeNames(entries.filter((n, i) => !excluded.has(i) && n.trim()));
+
+  useEffect(() => {
+    const t = requestAnimationFrame(() => setVisible(true));
+    return () => cancelAnimationFrame(t);
+  }, []);
+
+  function toggle(index: number) {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  }
+
+  function commitEdit() {
+    if (!editing) return;
+    const text = editing.text.replace(/\s+/g, " ").trim();
+    setEntries((prev) => prev.map((n, i) => (i === editing.index ? text : n)));
+    setEditing(null);
+  }
+
+  // "Martin Luther King" + "Jr." → "Martin Luther King, Jr."
+  function joinWithPrevious(index: number) {
+    setEntries((prev) => [
+      ...prev.slice(0, index - 1),
+      `${prev[index - 1]}, ${prev[index]}`,
+      ...prev.slice(index + 1),
+    ]);
+    // Indices past the joined pair shift up by one
+    setExcluded((prev) => new Set(
+      Array.from(prev).filter((i) => i !== index).map((i) => (i > index ? i - 1 : i))
+    ));
+    setEditing(null);
+  }
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Review names to add"
+      style={{
+        position: "fixed",
+        top: "calc(48px + 56px)",
+        left: "50%",
+        transform: `translateX(-50%) translateY(${visible ? 0 : 4}px)`,
+        zIndex: 45,
+        display: "flex",
+        flexDirection: "column",
+        gap: "1rem",
+        width: "min(480px, 80vw)",
+        maxHeight: "calc(100vh - 48px - 56px - 6rem)",
+        padding: "1.25rem 1.5rem",
+        backgroundColor: "var(--bg)",
+        border: "1px solid var(--border)",
+        opacity: visible ? 1 : 0,
+        transition: "opacity 0.3s var(--ease-physical), transform 0.3s var(--ease-physical)",
+      }}
+    >
+      <span
+        style={{
+          fontFamily: "var(--font-display)",
+          fontSize: "1.125rem",
+          fontStyle: "italic",
+          color: "var(--fg-muted)",
+          letterSpacing: "0.01em",
+        }}
+      >
+        {entries.length} {entries.length === 1 ? "name" : "names"} from {source === "clipboard" ? "the clipboard" : <>&ldquo;{source}&rdquo;</>}
+        {skipped > 0 && (
+          <span style={{ fontSize: "0.875rem" }}> · {skipped} already listed</span>
+        )}
+      </span>
+
+      <ul
+        style={{
+          listStyle: "none",
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.125rem",
+          overflowY: "auto",
+          minHeight: 0,
+        }}
+      >
+        {entries.map((name, i) => {
+          const isExcluded = excluded.has(i);
+          const isEditing = editing?.index === i;
+          return (
+            <li key={i} style={{ display: "flex", alignItems: "baseline", gap: "0.75rem" }}>
+              {isEditing ? (
+                <input
+                  value={editing.text}
+                  autoFocus
+                  onChange={(e) => setEditing({ index: i, text: e.target.value })}
+                  onBlur={commitEdit}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitEdit();
+                    if (e.key === "Escape") {
+                      e.stopPropagation();
+                      setEditing(null);
+                    }
+                  }}
+                  style={{
+                    flex: 1,
+                    background: "none",
+                    border: "none",
+                    borderLeft: "1px solid var(--accent)",
+                    padding: "0.125rem 0 0.125rem 0.875rem",
+                    fontFamily: "var(--font-mono)",
+                    fontSize: "0.8125rem",
+                    letterSpacing: "0.02em",
+                    color: "var(--fg)",
+                    outline: "none",
+                  }}
+                />
+              ) : (
+                <button
+                  onClick={() => toggle(i)}
+                  title={isExcluded ? "Keep" : "Leave out"}
+                  style={{
+                    flex: 1,
+                    background: "none",
+                    border: "none",
+                    borderLeft: "1px solid var(--border)",
+                    padding: "0.125rem 0 0.125rem 0.875rem",
+                    fontFamily: "var(--font-mono)",
+                    fontSize: "0.8125rem",
+                    letterSpacing: "0.02em",
+                    color: "var(--fg)",
+                    textAlign: "left",
+                    textDecoration: isExcluded ? "line-through" : "none",
+                    opacity: isExcluded ? 0.35 : 1,
+                    cursor: "pointer",
+                    transition: "opacity 0.15s ease",
+                  }}
+                >
+                  {name}
+                </button>
+              )}
+              {!isEditing && (
+                <button onClick={() => setEditing({ index: i, text: name })} title="Correct this name" style={rowActionStyle}>
+                  edit
+                </button>
+              )}
+              {i > 0 && !isEditing && (
+                <button onClick={() => joinWithPrevious(i)} title="Join with the name above" style={rowActionStyle}>
+                  join ↑
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <div style={{ display: "flex", gap: "1.25rem" }}>
+        {kept.length > 0 && (
+          <button
+            onClick={() => onConfirm(kept)}
+            style={{ ...buttonStyle, color: "var(--fg)", borderBottomColor: "var(--accent)" }}
+          >
+            add {kept.length} {kept.length === 1 ? "name" : "names"}
+          </button>
+        )}
+        <button onClick={onCancel} style={buttonStyle}>
+          cancel
+        </button>
+      </div>
+    </div>
+  );
+}
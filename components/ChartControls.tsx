@@ -0,0 +1,223 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { ChartLayout, SortKey } from "@/types/timeline";
+
+const LAYOUTS: { key: ChartLayout; label: string }[] = [
+  { key: "flat",    label: "Flat"    },
+  { key: "grouped", label: "Grouped" },
+  { key: "packed",  label: "Packed"  },
+];
+
+const SORTS: { key: SortKey; label: string }[] = [
+  { key: "birth",    label: "Born"     },
+  { key: "death",    label: "Died"     },
+  { key: "lifespan", label: "Lifespan" },
+  { key: "name",     label: "Name"     },
+  { key: "category", label: "Category" },
+  { key: "added",    label: "Added"    },
+];
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+interface ChartControlsProps {
+  layout: ChartLayout;
+  onLayoutChange: (layout: ChartLayout) => void;
+  sortKey: SortKey;
+  onSortChange: (sortKey: SortKey) => void;
+  onExportSvg: () => void;
+  onExportPng: (scale: number) => void;
+  onCopyLink: () => Promise<boolean>; // resolves true once the link is on the clipboard
+  canPrint?: boolean; // the print route only reads the library's active chart
+  history?: { onUndo: () => void; onRedo: () => void; canUndo: boolean; canRedo: boolean }; // absent for read-only charts
+  visible: boolean;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "0.5rem",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.575rem",
+  letterSpacing: "0.2em",
+  textTransform: "uppercase",
+  color: "var(--fg-muted)",
+  transition: "opacity 200ms ease",
+  userSelect: "none",
+};
+
+const selectStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.575rem",
+  letterSpacing: "0.2em",
+  textTransform: "uppercase",
+  color: "var(--fg)",
+  padding: "0.25rem 0",
+  outline: "none",
+};
+
+const linkStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  cursor: "pointer",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.575rem",
+  letterSpacing: "0.2em",
+  textTransform: "uppercase",
+  color: "var(--fg)",
+  padding: "0.25rem 0",
+};
+
+// Small segmented toggle — same register as the PersonModal tabs
+function Segmented<K extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: { key: K; label: string }[];
+  value: K;
+  onChange: (key: K) => void;
+}) {
+  return (
+    <div role="group" aria-label={label} style={{ display: "flex", alignItems: "center", gap: "1rem" }}>
+      {options.map(({ key, label }) => {
+        const isActive = value === key;
+        return (
+          <button
+            key={key}
+            onClick={() => onChange(key)}
+            aria-pressed={isActive}
+            style={{
+              background: "none",
+              border: "none",
+              borderBottom: `1px solid ${isActive ? "var(--accent)" : "transparent"}`,
+              cursor: isActive ? "default" : "pointer",
+              fontFamily: "var(--font-mono)",
+              fontSize: "0.575rem",
+              letterSpacing: "0.2em",
+              textTransform: "uppercase",
+              color: isActive ? "var(--fg)" : "var(--fg-muted)",
+              opacity: isActive ? 1 : 0.45,
+              padding: "0.25rem 0",
+              transition: "color 200ms ease, opacity 200ms ease, border-color 200ms ease",
+              userSelect: "none",
+            }}
+            onMouseEnter={(e) => { if (!isActive) e.currentTarget.style.opacity = "0.75"; }}
+            onMouseLeave={(e) => { if (!isActive) e.currentTarget.style.opacity = "0.45"; }}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function ChartControls({
+  layout,
+  onLayoutChange,
+  sortKey,
+  onSortChange,
+  onExportSvg,
+  onExportPng,
+  onCopyLink,
+  canPrint = true,
+  history,
+  visible,
+}: ChartControlsProps) {
+  const [pngScale, setPngScale] = useState(2);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  async function handleCopyLink() {
+    if (!(await onCopyLink())) return;
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  }
+  // Packed lanes are always filled in birth order
+  const sortDisabled = layout === "packed";
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        bottom: "1.25rem",
+        left: "1.25rem",
+        zIndex: 100,
+        display: "flex",
+        alignItems: "center",
+        gap: "1.75rem",
+        opacity: visible ? 1 : 0,
+        pointerEvents: visible ? "auto" : "none",
+        transition: "opacity 0.3s ease",
+      }}
+    >
+      {/* Same steps as Ctrl/Cmd+Z and Shift+Z */}
+      {history && (
+        <div role="group" aria-label="History" style={{ ...labelStyle, opacity: 0.7, gap: "1rem" }}>
+          <button
+            onClick={history.onUndo}
+            disabled={!history.canUndo}
+            style={{ ...linkStyle, opacity: history.canUndo ? 1 : 0.3, cursor: history.canUndo ? "pointer" : "default" }}
+          >
+            Undo
+          </button>
+          <button
+            onClick={history.onRedo}
+            disabled={!history.canRedo}
+            style={{ ...linkStyle, opacity: history.canRedo ? 1 : 0.3, cursor: history.canRedo ? "pointer" : "default" }}
+          >
+            Redo
+          </button>
+        </div>
+      )}
+
+      <Segmented label="Layout" options={LAYOUTS} value={layout} onChange={onLayoutChange} />
+
+      <label style={{ ...labelStyle, opacity: sortDisabled ? 0.25 : 0.7 }}>
+        Sort
+        <select
+          value={sortKey}
+          disabled={sortDisabled}
+          onChange={(e) => onSortChange(e.target.value as SortKey)}
+          style={{ ...selectStyle, cursor: sortDisabled ? "default" : "pointer" }}
+        >
+          {SORTS.map(({ key, label }) => (
+            <option key={key} value={key} style={{ backgroundColor: "var(--bg)" }}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {/* Exports capture the chart as it stands — zoom, layout and sort included;
+          Print opens the paginated poster route; Link copies a share URL */}
+      <div role="group" aria-label="Export" style={{ ...labelStyle, opacity: 0.7, gap: "1rem" }}>
+        Export
+        <button onClick={onExportSvg} style={linkStyle}>SVG</button>
+        <button onClick={() => onExportPng(pngScale)} style={linkStyle}>PNG</button>
+        <select
+          value={pngScale}
+          aria-label="PNG scale"
+          onChange={(e) => setPngScale(Number(e.target.value))}
+          style={{ ...selectStyle, cursor: "pointer" }}
+        >
+          {PNG_SCALES.map((scale) => (
+            <option key={scale} value={scale} style={{ backgroundColor: "var(--bg)" }}>
+              {scale}×
+            </option>
+          ))}
+        </select>
+        {canPrint && <Link href="/print" style={{ ...linkStyle, textDecoration: "none" }}>Print</Link>}
+        <button onClick={handleCopyLink} style={{ ...linkStyle, color: linkCopied ? "var(--accent)" : "var(--fg)" }}>
+          {linkCopied ? "Copied" : "Link"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { ChartMeta } from "@/types/timeline";
+import { TimelineFileFormat } from "@/lib/timelineFile";
+
+interface ChartSwitcherProps {
+  charts: ChartMeta[];
+  activeId: string;
+  disabled?: boolean; // e.g. while a generate is streaming into the active chart
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: (format: TimelineFileFormat) => void;
+  canExport: boolean; // the active chart has rows
+}
+
+const actionStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.55rem",
+  letterSpacing: "0.18em",
+  textTransform: "uppercase",
+  color: "var(--fg-muted)",
+  cursor: "pointer",
+  padding: 0,
+};
+
+const footerLinkStyle: React.CSSProperties = {
+  ...actionStyle,
+  fontSize: "0.6875rem",
+  letterSpacing: "0.08em",
+  textTransform: "none",
+  borderBottom: "1px solid var(--border)",
+  padding: "0 0 0.2rem",
+};
+
+const inputStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--accent)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.8125rem",
+  letterSpacing: "0.02em",
+  color: "var(--fg)",
+  padding: "0 0 0.15rem",
+  outline: "none",
+};
+
+// Inline text field — Enter commits, Escape or blur cancels
+function NameField({
+  initial,
+  placeholder,
+  onCommit,
+  onCancel,
+}: {
+  initial: string;
+  placeholder?: string;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initial);
+  return (
+    <input
+      autoFocus
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => setValue(e.target.value)}
+      onFocus={(e) => e.currentTarget.select()}
+      onBlur={onCancel}
+      onKeyDown={(e) => {
+        if (e.key === "Enter" && value.trim()) onCommit(value.trim());
+        if (e.key === "Escape") {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+      style={inputStyle}
+    />
+  );
+}
+
+function ChartItem({
+  chart,
+  isActive,
+  onSwitch,
+  onDuplicate,
+  onRename,
+  onDelete,
+}: {
+  chart: ChartMeta;
+  isActive: boolean;
+  onSwitch: () => void;
+  onDuplicate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}) {
+  const [hovered, setHovered] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  // Delete is two-step: first click arms, second click deletes
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  return (
+    <li
+      onMouseEnter={() => setHovered(true)}
+      onMouseLeave={() => { setHovered(false); setConfirmDelete(false); }}
+      style={{
+        display: "flex",
+        alignItems: "baseline",
+        gap: "0.75rem",
+        borderLeft: `1px solid ${isActive || hovered ? "var(--accent)" : "var(--border)"}`,
+        padding: "0.375rem 0 0.375rem 0.875rem",
+        transition: "border-color 0.2s ease",
+      }}
+    >
+      {renaming ? (
+        <NameField
+          initial={chart.name}
+          onCommit={(name) => { onRename(name); setRenaming(false); }}
+          onCancel={() => setRenaming(false)}
+        />
+      ) : (
+        <button
+          onClick={onSwitch}
+          aria-current={isActive}
+          style={{
+            flex: 1,
+            minWidth: 0,
+            textAlign: "left",
+            background: "none",
+            border: "none",
+            fontFamily: "var(--font-mono)",
+            fontSize: "0.8125rem",
+            letterSpacing: "0.02em",
+            color: isActive ? "var(--accent)" : "var(--fg)",
+            cursor: isActive ? "default" : "pointer",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+            padding: 0,
+          }}
+        >
+          {chart.name}
+        </button>
+      )}
+
+      <span
+        style={{
+          display: "flex",
+          gap: "0.75rem",
+          opacity: hovered && !renaming ? 1 : 0,
+          pointerEvents: hovered && !renaming ? "auto" : "none",
+          transition: "opacity 0.15s ease",
+        }}
+      >
+        <button onClick={() => setRenaming(true)} style={actionStyle}>rename</button>
+        <button onClick={onDuplicate} style={actionStyle}>copy</button>
+        <button
+          onClick={() => (confirmDelete ? onDelete() : setConfirmDelete(true))}
+          style={{ ...actionStyle, color: confirmDelete ? "var(--accent)" : "var(--fg-muted)" }}
+        >
+          {confirmDelete ? "sure?" : "delete"}
+        </button>
+      </span>
+    </li>
+  );
+}
+
+export default function ChartSwitcher({
+  charts,
+  activeId,
+  disabled = false,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onImport,
+  onExport,
+  canExport,
+}: ChartSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = charts.find((c) => c.id === activeId);
+
+  // Close on outside click or Escape
+  useEffect(() => {
+    if (!open) return;
+    const onPointer = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    document.addEventListener("mousedown", onPointer);
+    document.addEventListener("keydown", onKey);
+    return () => {
+      document.removeEventListener("mousedown", onPointer);
+      document.removeEventListener("keydown", onKey);
+    };
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) setCreating(false);
+  }, [open]);
+
+  if (!active) return null;
+
+  return (
+    <div
+      ref={rootRef}
+      style={{
+        position: "fixed",
+        top: "1.25rem",
+        left: "calc(1.25rem + 32px)",
+        zIndex: 100,
+      }}
+    >
+      <button
+        onClick={() => setOpen((o) => !o)}
+        disabled={disabled}
+        aria-expanded={open}
+        aria-haspopup="listbox"
+        title="Switch timeline"
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "0.5rem",
+          height: "24px",
+          maxWidth: "40vw",
+          background: "none",
+          border: "none",
+          fontFamily: "var(--font-mono)",
+          fontSize: "0.575rem",
+          letterSpacing: "0.2em",
+          textTransform: "uppercase",
+          color: "var(--fg-muted)",
+          opacity: disabled ? 0.25 : open ? 1 : 0.6,
+          cursor: disabled ? "default" : "pointer",
+          transition: "opacity 0.2s ease",
+          userSelect: "none",
+        }}
+      >
+        <span style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {active.name}
+        </span>
+        <span aria-hidden style={{ fontSize: "0.5rem" }}>{open ? "▴" : "▾"}</span>
+      </button>
+
+      {open && (
+        <div
+          style={{
+            marginTop: "0.75rem",
+            width: "min(360px, 80vw)",
+            display: "flex",
+            flexDirection: "column",
+            gap: "0.75rem",
+            padding: "1rem 1.25rem",
+            backgroundColor: "var(--bg)",
+            border: "1px solid var(--border)",
+            animation: "modal-fade-in 0.2s ease both",
+          }}
+        >
+          <ul role="listbox" style={{ listStyle: "none", display: "flex", flexDirection: "column", gap: "0.25rem" }}>
+            {charts.map((chart) => (
+              <ChartItem
+                key={chart.id}
+                chart={chart}
+                isActive={chart.id === activeId}
+                onSwitch={() => { onSwitch(chart.id); setOpen(false); }}
+                onDuplicate={() => onDuplicate(chart.id)}
+                onRename={(name) => onRename(chart.id, name)}
+                onDelete={() => onDelete(chart.id)}
+              />
+            ))}
+          </ul>
+
+          {creating ? (
+            <div style={{ display: "flex", paddingLeft: "0.875rem" }}>
+              <NameField
+                initial=""
+                placeholder="Name this timeline"
+                onCommit={(name) => { onCreate(name); setOpen(false); }}
+                onCancel={() => setCreating(false)}
+              />
+            </div>
+          ) : (
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "1rem" }}>
+              <button onClick={() => setCreating(true)} style={footerLinkStyle}>
+                + new timeline
+              </button>
+              <button onClick={() => fileInputRef.current?.click()} style={footerLinkStyle}>
+                import…
+              </button>
+              {canExport && (
+                <>
+                  <button onClick={() => onExport("json")} style={footerLinkStyle}>export json</button>
+                  <button onClick={() => onExport("csv")} style={footerLinkStyle}>export csv</button>
+                </>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = ""; // allow re-importing the same file
+                  if (file) {
+                    onImport(file);
+                    setOpen(false);
+                  }
+                }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
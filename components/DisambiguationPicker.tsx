@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AmbiguousName, PersonData } from "@/types/timeline";
+import { formatDate } from "@/lib/dates";
+
+interface DisambiguationPickerProps {
+  pending: AmbiguousName;
+  remaining: number; // further ambiguous names queued after this one
+  onChoose: (query: string, person: PersonData) => void;
+  onSkip: (query: string) => void;
+}
+
+function CandidateItem({
+  person,
+  onChoose,
+}: {
+  person: PersonData;
+  onChoose: () => void;
+}) {
+  const [hovered, setHovered] = useState(false);
+  const years = `${formatDate(person.birth_year, person.birth_month, person.birth_day)} – ${
+    person.death_year === null ? "present" : formatDate(person.death_year, person.death_month, person.death_day)
+  }`;
+
+  return (
+    <li>
+      <button
+        onClick={onChoose}
+        onMouseEnter={() => setHovered(true)}
+        onMouseLeave={() => setHovered(false)}
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.25rem",
+          width: "100%",
+          textAlign: "left",
+          background: "none",
+          border: "none",
+          borderLeft: `1px solid ${hovered ? "var(--accent)" : "var(--border)"}`,
+          padding: "0.375rem 0 0.375rem 0.875rem",
+          cursor: "pointer",
+          transition: "border-color 0.2s ease",
+        }}
+      >
+        <span
+          style={{
+            display: "flex",
+            alignItems: "baseline",
+            gap: "0.75rem",
+            fontFamily: "var(--font-mono)",
+            fontSize: "0.8125rem",
+            color: hovered ? "var(--accent)" : "var(--fg)",
+            letterSpacing: "0.02em",
+            transition: "color 0.2s ease",
+          }}
+        >
+          {person.name}
+          <span style={{ fontSize: "0.6875rem", color: "var(--fg-muted)" }}>
+            {years}
+          </span>
+          <span
+            style={{
+              fontSize: "0.55rem",
+              color: "var(--fg-muted)",
+              letterSpacing: "0.18em",
+              textTransform: "uppercase",
+              opacity: 0.7,
+            }}
+          >
+            {person.category}
+          </span>
+        </span>
+        {person.description && (
+          <span
+            style={{
+              fontFamily: "var(--font-display)",
+              fontSize: "0.9375rem",
+              fontStyle: "italic",
+              color: "var(--fg)",
+              opacity: 0.65,
+              lineHeight: 1.4,
+            }}
+          >
+            {person.description}
+          </span>
+        )}
+      </button>
+    </li>
+  );
+}
+
+export default function DisambiguationPicker({
+  pending,
+  remaining,
+  onChoose,
+  onSkip,
+}: DisambiguationPickerProps) {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    // Re-trigger the fade for each new ambiguous name
+    setVisible(false);
+    const t = requestAnimationFrame(() => setVisible(true));
+    return () => cancelAnimationFrame(t);
+  }, [pending.query]);
+
+  return (
+    <div
+      role="dialog"
+      aria-label={`Choose which ${pending.query}`}
+      style={{
+        position: "fixed",
+        top: "calc(48px + 56px)",
+        left: "50%",
+        transform: `translateX(-50%) translateY(${visible ? 0 : 4}px)`,
+        zIndex: 45,
+        display: "flex",
+        flexDirection: "column",
+        gap: "1rem",
+        width: "min(480px, 80vw)",
+        opacity: visible ? 1 : 0,
+        transition: "opacity 0.3s var(--ease-physical), transform 0.3s var(--ease-physical)",
+      }}
+    >
+      <span
+        style={{
+          fontFamily: "var(--font-display)",
+          fontSize: "1.125rem",
+          fontStyle: "italic",
+          color: "var(--fg-muted)",
+          letterSpacing: "0.01em",
+        }}
+      >
+        Which &ldquo;{pending.query}&rdquo;?
+      </span>
+
+      <ul
+        style={{
+          listStyle: "none",
+          display: "flex",
+          flexDirection: "column",
+          gap: "0.5rem",
+        }}
+      >
+        {pending.candidates.map((person, i) => (
+          <CandidateItem
+            key={`${person.name}-${person.birth_year}-${i}`}
+            person={person}
+            onChoose={() => onChoose(pending.query, person)}
+          />
+        ))}
+      </ul>
+
+      <button
+        onClick={() => onSkip(pending.query)}
+        style={{
+          alignSelf: "flex-start",
+          background: "none",
+          border: "none",
+          borderBottom: "1px solid var(--border)",
+          fontFamily: "var(--font-mono)",
+          fontSize: "0.6875rem",
+          color: "var(--fg-muted)",
+          letterSpacing: "0.08em",
+          padding: "0 0 0.2rem",
+          cursor: "pointer",
+        }}
+      >
+        skip{remaining > 0 ? ` (${remaining} more to choose)` : ""}
+      </button>
+    </div>
+  );
+}
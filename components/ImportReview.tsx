@@ -0,0 +1,139 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { ImportResult } from "@/lib/timelineFile";
+
+// Bad rows listed before collapsing into "+N more"
+const MAX_ERRORS_SHOWN = 6;
+
+interface ImportReviewProps {
+  fileName: string;
+  result: ImportResult;
+  hasChart: boolean; // merge vs replace only matters when the chart has rows
+  onConfirm: (mode: "merge" | "replace") => void;
+  onCancel: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.6875rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.08em",
+  padding: "0 0 0.2rem",
+  cursor: "pointer",
+};
+
+export default function ImportReview({
+  fileName,
+  result,
+  hasChart,
+  onConfirm,
+  onCancel,
+}: ImportReviewProps) {
+  const [visible, setVisible] = useState(false);
+  const { people, errors } = result;
+
+  useEffect(() => {
+    const t = requestAnimationFrame(() => setVisible(true));
+    return () => cancelAnimationFrame(t);
+  }, []);
+
+  return (
+    <div
+      role="dialog"
+      aria-label={`Import ${fileName}`}
+      style={{
+        position: "fixed",
+        top: "calc(48px + 56px)",
+        left: "50%",
+        transform: `translateX(-50%) translateY(${visible ? 0 : 4}px)`,
+        zIndex: 45,
+        display: "flex",
+        flexDirection: "column",
+        gap: "1rem",
+        width: "min(480px, 80vw)",
+        padding: "1.25rem 1.5rem",
+        backgroundColor: "var(--bg)",
+        border: "1px solid var(--border)",
+        opacity: visible ? 1 : 0,
+        transition: "opacity 0.3s var(--ease-physical), transform 0.3s var(--ease-physical)",
+      }}
+    >
+      <span
+        style={{
+          fontFamily: "var(--font-display)",
+          fontSize: "1.125rem",
+          fontStyle: "italic",
+          color: "var(--fg-muted)",
+          letterSpacing: "0.01em",
+        }}
+      >
+        {people.length} {people.length === 1 ? "person" : "people"} ready from &ldquo;{fileName}&rdquo;
+      </span>
+
+      {errors.length > 0 && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+          <span
+            style={{
+              fontFamily: "var(--font-mono)",
+              fontSize: "0.55rem",
+              letterSpacing: "0.18em",
+              textTransform: "uppercase",
+              color: "var(--accent)",
+            }}
+          >
+            {errors.length} {errors.length === 1 ? "row" : "rows"} skipped
+          </span>
+          <ul style={{ listStyle: "none", display: "flex", flexDirection: "column", gap: "0.375rem" }}>
+            {errors.slice(0, MAX_ERRORS_SHOWN).map((err) => (
+              <li
+                key={err.row}
+                style={{
+                  borderLeft: "1px solid var(--border)",
+                  paddingLeft: "0.875rem",
+                  fontFamily: "var(--font-mono)",
+                  fontSize: "0.6875rem",
+                  color: "var(--fg)",
+                  letterSpacing: "0.02em",
+                  lineHeight: 1.5,
+                }}
+              >
+                row {err.row}{err.name ? ` · ${err.name}` : ""}
+                <span style={{ display: "block", color: "var(--fg-muted)", fontStyle: "italic" }}>
+                  {err.issues.join("; ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {errors.length > MAX_ERRORS_SHOWN && (
+            <span style={{ fontFamily: "var(--font-mono)", fontSize: "0.6875rem", color: "var(--fg-muted)" }}>
+              +{errors.length - MAX_ERRORS_SHOWN} more
+            </span>
+          )}
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: "1.25rem" }}>
+        {people.length > 0 && hasChart && (
+          <button onClick={() => onConfirm("merge")} style={{ ...buttonStyle, color: "var(--fg)", borderBottomColor: "var(--accent)" }}>
+            merge into chart
+          </button>
+        )}
+        {people.length > 0 && (
+          <button
+            onClick={() => onConfirm("replace")}
+            style={hasChart ? buttonStyle : { ...buttonStyle, color: "var(--fg)", borderBottomColor: "var(--accent)" }}
+          >
+            {hasChart ? "replace chart" : "add to chart"}
+          </button>
+        )}
+        <button onClick={onCancel} style={buttonStyle}>
+          cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 "use client";
 
 import { useRef, useState, useCallback, useEffect } from "react";
+import { PersonData } from "@/types/timeline";
+import { parseManualEntry } from "@/lib/manualEntry";
+import { splitNameList } from "@/lib/names";
 
 interface InputBarProps {
   onSubmitName: (name: string) => void;
+  onSubmitPerson: (person: PersonData) => void; // structured "Name, 1820–1891, Category" entries
+  onBulkText: (text: string, source: string) => void; // pasted lists and dropped .txt/.csv files
   onGenerate: () => void;
   isLoading: boolean;
   disabled: boolean;
@@ -11,11 +16,15 @@ interface InputBarProps {
 
 export default function InputBar({
   onSubmitName,
+  onSubmitPerson,
+  onBulkText,
   onGenerate,
   isLoading,
   disabled,
 }: InputBarProps) {
   const [value, setValue] = useState("");
+  const [entryIssues, setEntryIssues] = useState<string[]>([]);
+  const [dragging, setDragging] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const [isMobile, setIsMobile] = useState(false);
 
@@ -30,13 +39,47 @@ export default function InputBar({
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
       if (e.key === "Enter" && value.trim()) {
-        onSubmitName(value.trim());
+        // Structured entries skip the resolver; invalid ones stay put with the issues shown
+        const entry = parseManualEntry(value.trim());
+        if (entry && "issues" in entry) {
+          setEntryIssues(entry.issues);
+          return;
+        }
+        if (entry) onSubmitPerson(entry.person);
+        else onSubmitName(value.trim());
         setValue("");
       }
     },
-    [value, onSubmitName]
+    [value, onSubmitName, onSubmitPerson]
   );
 
+  // A paste is a list when it splits into several names the same way a dropped
+  // file does, and isn't a structured entry — "Smith, John" stays a name
+  function handlePaste(e: React.ClipboardEvent<HTMLInputElement>) {
+    const text = e.clipboardData.getData("text");
+    const isList = splitNameList(text).length > 1 && !parseManualEntry(text.trim());
+    if (!isList) return;
+    e.preventDefault();
+    onBulkText(text, "clipboard");
+  }
+
+  async function handleDrop(e: React.DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setDragging(false);
+    if (disabled) return;
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      if (/\.(txt|csv)$/i.test(file.name) || file.type.startsWith("text/")) {
+        onBulkText(await file.text(), file.name);
+      } else {
+        setEntryIssues(["drop a .txt or .csv file of names"]);
+      }
+      return;
+    }
+    const text = e.dataTransfer.getData("text");
+    if (text.trim()) onBulkText(text, "clipboard");
+  }
+
   // Focus input on mount
   useEffect(() => {
     inputRef.current?.focus();
@@ -55,25 +98,36 @@ export default function InputBar({
         alignItems: "center",
       }}
     >
-      {/* Input field */}
+      {/* Input field — also a drop target for name-list files */}
       <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          if (!disabled) setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
         style={{
           display: "flex",
           alignItems: "baseline",
           gap: "0",
           width: "min(480px, 80vw)",
-          borderBottom: "1px solid var(--fg)",
+          borderBottom: `1px ${dragging ? "dashed var(--accent)" : "solid var(--fg)"}`,
           paddingBottom: "6px",
+          transition: "border-color 0.15s ease",
         }}
       >
         <input
           ref={inputRef}
           type="text"
           value={value}
-          onChange={(e) => setValue(e.target.value)}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setEntryIssues([]);
+          }}
           onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
           disabled={disabled}
-          placeholder="type a name, press enter"
+          placeholder={dragging ? "drop to add these names" : "type a name, press enter"}
           spellCheck={false}
           autoComplete="off"
           style={{
@@ -91,6 +145,26 @@ export default function InputBar({
         />
       </div>
 
+      {/* Manual entry hint — appears once the text looks structured */}
+      {(value.includes(",") || entryIssues.length > 0) && (
+        <span
+          style={{
+            marginTop: "0.5rem",
+            width: "min(480px, 80vw)",
+            fontFamily: "var(--font-mono)",
+            fontSize: "0.6875rem",
+            fontStyle: "italic",
+            letterSpacing: "0.02em",
+            color: entryIssues.length > 0 ? "var(--accent)" : "var(--fg-muted)",
+            opacity: entryIssues.length > 0 ? 1 : 0.6,
+          }}
+        >
+          {entryIssues.length > 0
+            ? entryIssues.join("; ")
+            : "add directly: Name, born–died, Category — e.g. Jane Doe, 1820–1891, Writers"}
+        </span>
+      )}
+
       <style>{`
         input::placeholder {
           color: var(--fg-muted);
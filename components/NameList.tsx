@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from "react";
 
 interface NameListProps {
   names: string[];
+  unresolved?: Record<string, string>; // name → why the resolver dropped it
   onRemove: (name: string) => void;
   onGenerate: () => void;
   isLoading: boolean;
@@ -12,9 +13,11 @@ interface NameListProps {
 
 function NameItem({
   name,
+  reason,
   onRemove,
 }: {
   name: string;
+  reason?: string;
   onRemove: () => void;
 }) {
   const [visible, setVisible] = useState(false);
@@ -43,13 +46,42 @@ function NameItem({
     >
       <span
         style={{
-          fontFamily: "var(--font-mono)",
-          fontSize: "0.8125rem",
-          color: "var(--fg)",
-          letterSpacing: "0.02em",
+          display: "flex",
+          alignItems: "baseline",
+          gap: "0.625rem",
+          minWidth: 0,
         }}
       >
-        {name}
+        <span
+          style={{
+            fontFamily: "var(--font-mono)",
+            fontSize: "0.8125rem",
+            color: "var(--fg)",
+            letterSpacing: "0.02em",
+            opacity: reason ? 0.55 : 1,
+          }}
+        >
+          {name}
+        </span>
+
+        {/* Flag — why the last generate couldn't place this name */}
+        {reason && (
+          <span
+            title={reason}
+            style={{
+              fontFamily: "var(--font-mono)",
+              fontSize: "0.625rem",
+              color: "var(--accent)",
+              letterSpacing: "0.04em",
+              fontStyle: "italic",
+              whiteSpace: "nowrap",
+              overflow: "hidden",
+              textOverflow: "ellipsis",
+            }}
+          >
+            {reason}
+          </span>
+        )}
       </span>
       <button
         onClick={onRemove}
@@ -75,6 +107,7 @@ function NameItem({
 
 export default function NameList({
   names,
+  unresolved = {},
   onRemove,
   onGenerate,
   isLoading,
@@ -110,7 +143,12 @@ export default function NameList({
         }}
       >
         {names.map((name) => (
-          <NameItem key={name} name={name} onRemove={() => onRemove(name)} />
+          <NameItem
+            key={name}
+            name={name}
+            reason={unresolved[name]}
+            onRemove={() => onRemove(name)}
+          />
         ))}
       </ul>
 
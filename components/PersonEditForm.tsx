@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import { PersonData } from "@/types/timeline";
+import { CATEGORIES, personIssues, toPerson } from "@/lib/validation";
+import { personKey } from "@/lib/chartUtils";
+
+interface PersonEditFormProps {
+  person: PersonData;
+  takenKeys: string[]; // other people on the chart — name and birth year must stay unique
+  onSave: (updated: PersonData) => void;
+  onCancel: () => void;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: "0.3rem",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.55rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.18em",
+  textTransform: "uppercase",
+};
+
+const fieldStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.875rem",
+  color: "var(--fg)",
+  letterSpacing: "0.02em",
+  textTransform: "none",
+  padding: "0.2rem 0",
+  outline: "none",
+  width: "100%",
+};
+
+const buttonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.6875rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.08em",
+  padding: "0 0 0.2rem",
+  cursor: "pointer",
+};
+
+// Year inputs hold text so "-44" and "" survive while typing
+function parseYear(text: string): number | string {
+  const trimmed = text.trim();
+  return /^-?\d+$/.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+export default function PersonEditForm({ person, takenKeys, onSave, onCancel }: PersonEditFormProps) {
+  const [name, setName] = useState(person.name);
+  const [birth, setBirth] = useState(String(person.birth_year));
+  const [death, setDeath] = useState(person.death_year === null ? "" : String(person.death_year));
+  const [category, setCategory] = useState(person.category);
+  const [approximate, setApproximate] = useState(person.approximate);
+  const [description, setDescription] = useState(person.description ?? "");
+  const [issues, setIssues] = useState<string[]>([]);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const raw = {
+      name,
+      birth_year: parseYear(birth),
+      death_year: death.trim() === "" ? null : parseYear(death),
+      // Month and day aren't editable here — they survive while their year is unchanged
+      ...(parseYear(birth) === person.birth_year ? { birth_month: person.birth_month, birth_day: person.birth_day } : {}),
+      ...(parseYear(death) === person.death_year ? { death_month: person.death_month, death_day: person.death_day } : {}),
+      category,
+      approximate,
+      ...(description.trim() ? { description: description.trim() } : {}),
+    };
+    const found = personIssues(raw);
+    if (found.length === 0 && takenKeys.includes(personKey(toPerson(raw)!))) {
+      found.push("another person on the chart has this name and birth year");
+    }
+    if (found.length > 0) {
+      setIssues(found);
+      return;
+    }
+    onSave({ ...toPerson(raw)!, overridden: true });
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      // Escape cancels the edit rather than closing the whole modal
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+      style={{ display: "flex", flexDirection: "column", gap: "1rem" }}
+    >
+      <label style={labelStyle}>
+        Name
+        <input value={name} onChange={(e) => setName(e.target.value)} style={fieldStyle} />
+      </label>
+
+      <div style={{ display: "flex", gap: "1.25rem" }}>
+        <label style={{ ...labelStyle, flex: 1 }}>
+          Born
+          <input
+            value={birth}
+            inputMode="numeric"
+            placeholder="-44 for 44 bc"
+            onChange={(e) => setBirth(e.target.value)}
+            style={fieldStyle}
+          />
+        </label>
+        <label style={{ ...labelStyle, flex: 1 }}>
+          Died
+          <input
+            value={death}
+            inputMode="numeric"
+            placeholder="blank if living"
+            onChange={(e) => setDeath(e.target.value)}
+            style={fieldStyle}
+          />
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: "1.25rem", alignItems: "flex-end" }}>
+        <label style={{ ...labelStyle, flex: 1 }}>
+          Category
+          <select value={category} onChange={(e) => setCategory(e.target.value)} style={{ ...fieldStyle, cursor: "pointer" }}>
+            {/* Keep an off-list category selectable so it can be seen and fixed */}
+            {!CATEGORIES.some((c) => c === category) && <option value={category}>{category}</option>}
+            {CATEGORIES.map((c) => (
+              <option key={c} value={c} style={{ backgroundColor: "var(--bg)" }}>{c}</option>
+            ))}
+          </select>
+        </label>
+        <label style={{ ...labelStyle, flexDirection: "row", alignItems: "center", gap: "0.5rem", cursor: "pointer" }}>
+          <input
+            type="checkbox"
+            checked={approximate}
+            onChange={(e) => setApproximate(e.target.checked)}
+            style={{ accentColor: "var(--accent)" }}
+          />
+          Approx.
+        </label>
+      </div>
+
+      <label style={labelStyle}>
+        Description
+        <textarea
+          value={description}
+          rows={3}
+          onChange={(e) => setDescription(e.target.value)}
+          style={{ ...fieldStyle, fontFamily: "var(--font-display)", fontSize: "1rem", fontStyle: "italic", resize: "vertical" }}
+        />
+      </label>
+
+      {issues.length > 0 && (
+        <ul style={{ listStyle: "none", display: "flex", flexDirection: "column", gap: "0.2rem" }}>
+          {issues.map((issue) => (
+            <li
+              key={issue}
+              style={{ fontFamily: "var(--font-mono)", fontSize: "0.6875rem", color: "var(--accent)", fontStyle: "italic" }}
+            >
+              {issue}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div style={{ display: "flex", gap: "1.25rem" }}>
+        <button type="submit" style={{ ...buttonStyle, color: "var(--fg)", borderBottomColor: "var(--accent)" }}>
+          save
+        </button>
+        <button type="button" onClick={onCancel} style={buttonStyle}>
+          cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -1,11 +1,15 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
-import { PersonData, TimelineData } from "@/types/timeline";
-import { eventCache, NotableEvent } from "@/lib/eventCache";
+import { PersonData, ReResolveOutcome, TimelineData } from "@/types/timeline";
+import { eventCache, eventKey, NotableEvent } from "@/lib/eventCache";
+import { birthPoint, endPoint, formatDate, lifespanYears } from "@/lib/dates";
+import { personKey, displayName } from "@/lib/chartUtils";
 import RadialLifeClock from "@/components/viz/RadialLifeClock";
 import RadialAgeClock  from "@/components/viz/RadialAgeClock";
 import YearGrid        from "@/components/viz/YearGrid";
+import PersonEditForm  from "@/components/PersonEditForm";
+import ReResolvePanel  from "@/components/ReResolvePanel";
 
 const CURRENT_YEAR = 2026;
 const CLOSE_DURATION = 340;
@@ -23,17 +27,33 @@ interface PersonModalProps {
   barColor: string;
   allData: TimelineData;
   onClose: () => void;
+  onSave?: (updated: PersonData) => void; // absent for read-only charts
+  onReResolve?: (hint: string) => Promise<ReResolveOutcome>; // absent for read-only charts
+  onReResolveApply?: (updated: PersonData, hint: string) => void; // a confirmed re-resolve
 }
 
-function formatYear(y: number): string {
-  return y < 0 ? `${Math.abs(y)} BCE` : String(y);
-}
-
-export default function PersonModal({ person, barColor, allData, onClose }: PersonModalProps) {
+const modeButtonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  cursor: "pointer",
+  color: "var(--fg-muted)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.575rem",
+  letterSpacing: "0.2em",
+  textTransform: "uppercase",
+  opacity: 0.35,
+  padding: "0.25rem 0.375rem",
+  transition: "opacity 150ms ease",
+};
+
+export default function PersonModal({ person, barColor, allData, onClose, onSave, onReResolve, onReResolveApply }: PersonModalProps) {
   const [closing, setClosing] = useState(false);
+  // Left panel shows the bio, the edit form, or the re-resolve flow
+  const [panel, setPanel] = useState<"info" | "edit" | "reresolve">("info");
   const [activeViz, setActiveViz] = useState<ActiveViz>("clock");
   const [transitioning, setTransitioning] = useState(false);
   const indicatorRef = useRef<HTMLSpanElement>(null);
+  const takenKeys = allData.filter((p) => personKey(p) !== personKey(person)).map(personKey);
   const tabRefs = useRef<(HTMLButtonElement | null)[]>([]);
 
   const [isMobile, setIsMobile] = useState(false);
@@ -45,16 +65,17 @@ export default function PersonModal({ person, barColor, allData, onClose }: Pers
     return () => mq.removeEventListener("change", handler);
   }, []);
 
-  // ── Events data — fetched once per person on modal open ───────────────────
+  // ── Events data — fetched once per person (and life range), then persisted ─
+  const eventsKey = eventKey(person.name, person.birth_year, person.death_year);
   const [gridEvents, setGridEvents] = useState<NotableEvent[]>(() =>
-    eventCache.get(person.name) ?? []
+    eventCache.get(eventsKey) ?? []
   );
   const [eventsLoading, setEventsLoading] = useState(
-    !eventCache.has(person.name)
+    !eventCache.has(eventsKey)
   );
 
   useEffect(() => {
-    if (eventCache.has(person.name)) return; // already cached
+    if (eventCache.has(eventsKey)) return; // already cached
 
     let cancelled = false;
     setEventsLoading(true);
@@ -71,9 +92,14 @@ export default function PersonModal({ person, barColor, allData, onClose }: Pers
       .then((r) => r.json())
       .then((data) => {
         if (cancelled) return;
-        const events: NotableEvent[] = Array.isArray(data.events) ? data.events : [];
-        eventCache.set(person.name, events);
-        setGridEvents(events);
+        // Only non-empty lists are cached, as on the server — errors and
+        // empty answers retry on next open
+        if (!Array.isArray(data.events)) {
+          setGridEvents([]);
+          return;
+        }
+        if (data.events.length > 0) eventCache.set(eventsKey, data.events);
+        setGridEvents(data.events);
       })
       .catch(() => {
         if (!cancelled) setGridEvents([]);
@@ -83,7 +109,7 @@ export default function PersonModal({ person, barColor, allData, onClose }: Pers
       });
 
     return () => { cancelled = true; };
-  }, [person.name, person.birth_year, person.death_year]);
+  }, [eventsKey, person.name, person.birth_year, person.death_year]);
 
   function handleClose() {
     if (closing) return;
@@ -127,20 +153,18 @@ export default function PersonModal({ person, barColor, allData, onClose }: Pers
 
   // ── Computed biographical data ────────────────────────────────────────────
   const isAlive = person.death_year === null;
-  const lifespan = isAlive
-    ? CURRENT_YEAR - person.birth_year
-    : person.death_year! - person.birth_year;
+  const lifespan = lifespanYears(person, CURRENT_YEAR);
 
-  const birthStr    = formatYear(person.birth_year);
-  const deathStr    = isAlive ? "present" : formatYear(person.death_year!);
+  const birthStr    = formatDate(person.birth_year, person.birth_month, person.birth_day);
+  const deathStr    = isAlive ? "present" : formatDate(person.death_year!, person.death_month, person.death_day);
   const lifespanStr = isAlive ? `${lifespan}+ years` : `${lifespan} years`;
 
   // ── Contemporaries — others in this chart whose lifespan overlapped ───────
-  const personEnd = person.death_year ?? CURRENT_YEAR;
+  const personStart = birthPoint(person);
+  const personEnd   = endPoint(person, CURRENT_YEAR);
   const contemporaries = allData.filter((p) => {
-    if (p.name === person.name) return false;
-    const otherEnd = p.death_year ?? CURRENT_YEAR;
-    return person.birth_year <= otherEnd && p.birth_year <= personEnd;
+    if (personKey(p) === personKey(person)) return false;
+    return personStart <= endPoint(p, CURRENT_YEAR) && birthPoint(p) <= personEnd;
   });
 
   // ── Animations ────────────────────────────────────────────────────────────
@@ -232,6 +256,40 @@ export default function PersonModal({ person, barColor, allData, onClose }: Pers
           ×
         </button>
 
+        {/* Edit and re-resolve toggles — left of the close button */}
+        {onSave && panel === "info" && (
+          <div
+            style={{
+              position: "absolute",
+              top: "1.5rem",
+              right: "3.5rem",
+              zIndex: 10,
+              display: "flex",
+              gap: "0.25rem",
+            }}
+          >
+            {onReResolve && (
+              <button
+                onClick={() => setPanel("reresolve")}
+                title="Ask again for this person's data"
+                style={modeButtonStyle}
+                onMouseEnter={(e) => (e.currentTarget.style.opacity = "0.75")}
+                onMouseLeave={(e) => (e.currentTarget.style.opacity = "0.35")}
+              >
+                re-resolve
+              </button>
+            )}
+            <button
+              onClick={() => setPanel("edit")}
+              style={modeButtonStyle}
+              onMouseEnter={(e) => (e.currentTarget.style.opacity = "0.75")}
+              onMouseLeave={(e) => (e.currentTarget.style.opacity = "0.35")}
+            >
+              edit
+            </button>
+          </div>
+        )}
+
         {/* ── Left panel — biographical info ─────────────────────────────── */}
         <div
           style={{
@@ -240,177 +298,228 @@ export default function PersonModal({ person, barColor, allData, onClose }: Pers
             flexDirection: "column",
             justifyContent: "center",
             padding: isMobile ? "2rem 1.5rem 1.5rem" : "3rem 3.5rem",
-            overflowY: isMobile ? "auto" : undefined,
+            overflowY: isMobile || panel !== "info" ? "auto" : undefined,
           }}
         >
-          {/* Name */}
-          <h2
-            style={{
-              fontFamily: "var(--font-display)",
-              fontSize: "clamp(2rem, 3.5vw, 3.25rem)",
-              fontWeight: 300,
-              color: "var(--fg)",
-              letterSpacing: "-0.025em",
-              lineHeight: 0.92,
-              marginBottom: "0.75rem",
-            }}
-          >
-            {person.name}
-          </h2>
-
-          {/* Category + badges */}
-          <div
-            style={{
-              display: "flex",
-              alignItems: "center",
-              gap: "0.625rem",
-              marginBottom: "2rem",
-            }}
-          >
-            <span
-              style={{
-                fontFamily: "var(--font-mono)",
-                fontSize: "0.6rem",
-                color: "var(--fg-muted)",
-                letterSpacing: "0.18em",
-                textTransform: "uppercase",
-                opacity: 0.7,
+          {panel === "edit" && onSave ? (
+            <PersonEditForm
+              person={person}
+              takenKeys={takenKeys}
+              onSave={(updated) => {
+                onSave(updated);
+                setPanel("info");
               }}
-            >
-              {person.category}
-            </span>
-
-            {isAlive && (
-              <span
+              onCancel={() => setPanel("info")}
+            />
+          ) : panel === "reresolve" && onSave && onReResolve ? (
+            <ReResolvePanel
+              person={person}
+              takenKeys={takenKeys}
+              onResolve={onReResolve}
+              onApply={(updated, hint) => {
+                if (onReResolveApply) onReResolveApply(updated, hint);
+                else onSave(updated);
+                setPanel("info");
+              }}
+              onCancel={() => setPanel("info")}
+            />
+          ) : (
+            <>
+              {/* Name */}
+              <h2
                 style={{
-                  fontFamily: "var(--font-mono)",
-                  fontSize: "0.55rem",
-                  letterSpacing: "0.12em",
-                  textTransform: "uppercase",
-                  color: "var(--accent)",
-                  border: "1px solid currentColor",
-                  padding: "0.1rem 0.4rem",
-                  opacity: 0.9,
+                  fontFamily: "var(--font-display)",
+                  fontSize: "clamp(2rem, 3.5vw, 3.25rem)",
+                  fontWeight: 300,
+                  color: "var(--fg)",
+                  letterSpacing: "-0.025em",
+                  lineHeight: 0.92,
+                  marginBottom: "0.75rem",
                 }}
               >
-                living
-              </span>
-            )}
+                {displayName(person, allData)}
+              </h2>
 
-            {person.approximate && (
-              <span
+              {/* Category + badges */}
+              <div
                 style={{
-                  fontFamily: "var(--font-mono)",
-                  fontSize: "0.55rem",
-                  letterSpacing: "0.12em",
-                  textTransform: "uppercase",
-                  color: "var(--fg-muted)",
-                  border: "1px solid var(--border)",
-                  padding: "0.1rem 0.4rem",
-                  opacity: 0.6,
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "0.625rem",
+                  marginBottom: "2rem",
                 }}
               >
-                approx.
-              </span>
-            )}
-          </div>
-
-          {/* Hairline rule */}
-          <div
-            style={{
-              height: "1px",
-              backgroundColor: "var(--border)",
-              marginBottom: "1.75rem",
-            }}
-          />
+                <span
+                  style={{
+                    fontFamily: "var(--font-mono)",
+                    fontSize: "0.6rem",
+                    color: "var(--fg-muted)",
+                    letterSpacing: "0.18em",
+                    textTransform: "uppercase",
+                    opacity: 0.7,
+                  }}
+                >
+                  {person.category}
+                </span>
 
-          {/* Epitaph */}
-          {person.description && (
-            <p
-              style={{
-                fontFamily: "var(--font-display)",
-                fontSize: "clamp(0.85rem, 1.4vw, 1.05rem)",
-                fontWeight: 300,
-                fontStyle: "italic",
-                color: "var(--fg)",
-                lineHeight: 1.55,
-                opacity: 0.72,
-                marginBottom: "1.75rem",
-              }}
-            >
-              {person.description}
-            </p>
-          )}
+                {isAlive && (
+                  <span
+                    style={{
+                      fontFamily: "var(--font-mono)",
+                      fontSize: "0.55rem",
+                      letterSpacing: "0.12em",
+                      textTransform: "uppercase",
+                      color: "var(--accent)",
+                      border: "1px solid currentColor",
+                      padding: "0.1rem 0.4rem",
+                      opacity: 0.9,
+                    }}
+                  >
+                    living
+                  </span>
+                )}
 
-          {/* Contemporaries */}
-          {contemporaries.length > 0 && (
-            <div>
-              <span
-                style={{
-                  display: "block",
-                  fontFamily: "var(--font-mono)",
-                  fontSize: "0.55rem",
-                  color: "var(--fg-muted)",
-                  letterSpacing: "0.18em",
-                  textTransform: "uppercase",
-                  opacity: 0.45,
-                  marginBottom: "0.75rem",
-                }}
-              >
-                Shared the world with
-              </span>
-              <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
-                {contemporaries.slice(0, 5).map((p) => (
-                  <li
-                    key={p.name}
+                {person.approximate && (
+                  <span
                     style={{
-                      display: "flex",
-                      alignItems: "baseline",
-                      gap: "0.5rem",
-                      marginBottom: "0.35rem",
+                      fontFamily: "var(--font-mono)",
+                      fontSize: "0.55rem",
+                      letterSpacing: "0.12em",
+                      textTransform: "uppercase",
+                      color: "var(--fg-muted)",
+                      border: "1px solid var(--border)",
+                      padding: "0.1rem 0.4rem",
+                      opacity: 0.6,
                     }}
                   >
-                    <span
-                      style={{
-                        fontFamily: "var(--font-mono)",
-                        fontSize: "0.5rem",
-                        color: "var(--fg-muted)",
-                        opacity: 0.35,
-                        flexShrink: 0,
-                      }}
-                    >
-                      —
-                    </span>
-                    <span
-                      style={{
-                        fontFamily: "var(--font-mono)",
-                        fontSize: "0.72rem",
-                        color: "var(--fg)",
-                        opacity: 0.6,
-                        letterSpacing: "0.02em",
-                      }}
-                    >
-                      {p.name}
-                    </span>
-                  </li>
-                ))}
-                {contemporaries.length > 5 && (
-                  <li
+                    approx.
+                  </span>
+                )}
+
+                {person.overridden && (
+                  <span
+                    title="Edited by hand — a re-resolve only replaces these values if you confirm it"
                     style={{
                       fontFamily: "var(--font-mono)",
-                      fontSize: "0.58rem",
+                      fontSize: "0.55rem",
+                      letterSpacing: "0.12em",
+                      textTransform: "uppercase",
                       color: "var(--fg-muted)",
-                      opacity: 0.35,
-                      letterSpacing: "0.06em",
-                      marginTop: "0.1rem",
-                      paddingLeft: "1rem",
+                      border: "1px solid var(--border)",
+                      padding: "0.1rem 0.4rem",
+                      opacity: 0.6,
                     }}
                   >
-                    and {contemporaries.length - 5} more
-                  </li>
+                    edited
+                  </span>
                 )}
-              </ul>
-            </div>
+              </div>
+
+              {/* Hairline rule */}
+              <div
+                style={{
+                  height: "1px",
+                  backgroundColor: "var(--border)",
+                  marginBottom: "1.75rem",
+                }}
+              />
+
+              {/* Dates — full dates where known, else years */}
+              <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem", marginBottom: "1.75rem" }}>
+                <DataRow label="Born" value={birthStr} />
+                <DataRow label="Died" value={deathStr} />
+                <DataRow label="Lived" value={lifespanStr} accent />
+              </div>
+
+              {/* Epitaph */}
+              {person.description && (
+                <p
+                  style={{
+                    fontFamily: "var(--font-display)",
+                    fontSize: "clamp(0.85rem, 1.4vw, 1.05rem)",
+                    fontWeight: 300,
+                    fontStyle: "italic",
+                    color: "var(--fg)",
+                    lineHeight: 1.55,
+                    opacity: 0.72,
+                    marginBottom: "1.75rem",
+                  }}
+                >
+                  {person.description}
+                </p>
+              )}
+
+              {/* Contemporaries */}
+              {contemporaries.length > 0 && (
+                <div>
+                  <span
+                    style={{
+                      display: "block",
+                      fontFamily: "var(--font-mono)",
+                      fontSize: "0.55rem",
+                      color: "var(--fg-muted)",
+                      letterSpacing: "0.18em",
+                      textTransform: "uppercase",
+                      opacity: 0.45,
+                      marginBottom: "0.75rem",
+                    }}
+                  >
+                    Shared the world with
+                  </span>
+                  <ul style={{ listStyle: "none", margin: 0, padding: 0 }}>
+                    {contemporaries.slice(0, 5).map((p) => (
+                      <li
+                        key={personKey(p)}
+                        style={{
+                          display: "flex",
+                          alignItems: "baseline",
+                          gap: "0.5rem",
+                          marginBottom: "0.35rem",
+                        }}
+                      >
+                        <span
+                          style={{
+                            fontFamily: "var(--font-mono)",
+                            fontSize: "0.5rem",
+                            color: "var(--fg-muted)",
+                            opacity: 0.35,
+                            flexShrink: 0,
+                          }}
+                        >
+                          —
+                        </span>
+                        <span
+                          style={{
+                            fontFamily: "var(--font-mono)",
+                            fontSize: "0.72rem",
+                            color: "var(--fg)",
+                            opacity: 0.6,
+                            letterSpacing: "0.02em",
+                          }}
+                        >
+                          {displayName(p, allData)}
+                        </span>
+                      </li>
+                    ))}
+                    {contemporaries.length > 5 && (
+                      <li
+                        style={{
+                          fontFamily: "var(--font-mono)",
+                          fontSize: "0.58rem",
+                          color: "var(--fg-muted)",
+                          opacity: 0.35,
+                          letterSpacing: "0.06em",
+                          marginTop: "0.1rem",
+                          paddingLeft: "1rem",
+                        }}
+                      >
+                        and {contemporaries.length - 5} more
+                      </li>
+                    )}
+                  </ul>
+                </div>
+              )}
+            </>
           )}
         </div>
 
@@ -0,0 +1,310 @@
+"use client";
+
+import { useMemo } from "react";
+import { TimelineData, PersonData, SortKey, PrintOptions } from "@/types/timeline";
+import {
+  categoryColors,
+  sortPeople,
+  getYearRange,
+  getTickInterval,
+  getTicks,
+  personKey,
+  displayName,
+  CAT_COLORS,
+} from "@/lib/chartUtils";
+import { birthPoint, endPoint, formatDate } from "@/lib/dates";
+
+// ── Paper ─────────────────────────────────────────────────────────────────────
+// Portrait dimensions in millimetres; every length below is in mm too, since
+// each page's viewBox maps 1 unit to 1mm
+const PAPER_MM: Record<PrintOptions["paper"], [number, number]> = {
+  a4:     [210, 297],
+  a3:     [297, 420],
+  letter: [215.9, 279.4],
+};
+
+// ── Layout constants (mm) ─────────────────────────────────────────────────────
+const MARGIN        = 12;
+const HEADER_H      = 14;   // title line + rule
+const LEGEND_LINE_H = 5;
+const LEGEND_GAP    = 4;    // between legend and first row
+const AXIS_H        = 10;   // tick marks + year labels
+const ROW_PITCH     = 5.5;  // paginated row height
+const BAR_FRAC      = 0.55; // bar height as a share of the row
+const LABEL_SIZE    = 2.6;
+const LEGEND_SIZE   = 2.4;
+const CHAR_EM       = 0.6;  // DM Mono advance width, in ems
+const ALIVE_EXT     = 4;    // dashed extension past the present for living people
+const MIN_TICK_GAP  = 14;   // keep year labels from colliding on narrow paper
+const CURRENT_YEAR  = 2026;
+
+// Paper is always light — ink tones mirror the light theme in globals.css
+const INK       = "#1c1a17";
+const INK_MUTED = "#6b6353";
+const PAPER     = "#ffffff";
+
+export function pageSize({ paper, orientation }: PrintOptions): [number, number] {
+  const [w, h] = PAPER_MM[paper];
+  return orientation === "landscape" ? [h, w] : [w, h];
+}
+
+interface LegendItem {
+  category: string;
+  color: string;
+  x: number;
+  line: number;
+}
+
+// Lay legend entries left to right, wrapping onto new lines at the margin
+function layoutLegend(colors: Map<string, string>, innerW: number): { items: LegendItem[]; lines: number } {
+  const items: LegendItem[] = [];
+  let x = 0;
+  let line = 0;
+  for (const [category, color] of colors) {
+    const w = 4 + category.length * LEGEND_SIZE * CHAR_EM + 6;
+    if (x > 0 && x + w > innerW) {
+      x = 0;
+      line++;
+    }
+    items.push({ category, color, x, line });
+    x += w;
+  }
+  return { items, lines: colors.size ? line + 1 : 0 };
+}
+
+function chunkRows<T>(rows: T[], size: number): T[][] {
+  const pages: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) pages.push(rows.slice(i, i + size));
+  return pages;
+}
+
+// ── Component ─────────────────────────────────────────────────────────────────
+// Static, animation-free rendering of the flat layout for paper. Rows follow
+// the chart's sort order; the year scale is shared by every page so bars
+// line up when sheets are laid side by side.
+export default function PrintPoster({
+  data,
+  sortKey,
+  options,
+}: {
+  data: TimelineData;
+  sortKey: SortKey;
+  options: PrintOptions;
+}) {
+  const [pageW, pageH] = pageSize(options);
+  const innerW = pageW - MARGIN * 2;
+
+  const colors = useMemo(() => categoryColors(data), [data]);
+  const legend = useMemo(() => layoutLegend(colors, innerW), [colors, innerW]);
+  const sorted = useMemo(() => sortPeople(data, sortKey, CURRENT_YEAR), [data, sortKey]);
+
+  const plotTop = MARGIN + HEADER_H + legend.lines * LEGEND_LINE_H + LEGEND_GAP;
+  const plotBottom = pageH - MARGIN - AXIS_H;
+  const plotH = Math.max(plotBottom - plotTop, ROW_PITCH);
+
+  const pitch = options.fit === "fit"
+    ? Math.min(ROW_PITCH, plotH / Math.max(sorted.length, 1))
+    : ROW_PITCH;
+  const pages = options.fit === "fit"
+    ? [sorted]
+    : chunkRows(sorted, Math.max(1, Math.floor(plotH / pitch)));
+
+  const [minYear, maxYear] = getYearRange(data, CURRENT_YEAR);
+  const range = maxYear - minYear;
+  const xs = (y: number) => MARGIN + ((y - minYear) / range) * innerW;
+
+  let interval = getTickInterval(range);
+  while ((innerW * interval) / range < MIN_TICK_GAP) interval *= 2;
+  const ticks = getTicks(minYear, maxYear, interval);
+
+  const barH = pitch * BAR_FRAC;
+  const labelSize = Math.min(LABEL_SIZE, pitch * 0.7);
+  const subtitle = `${data.length} lives · ${formatDate(Math.ceil(minYear))} – ${formatDate(Math.floor(maxYear))}`;
+
+  function renderRow(person: PersonData, i: number) {
+    const rowY = plotTop + i * pitch;
+    const barY = rowY + (pitch - barH) / 2;
+    const midY = rowY + pitch / 2;
+    const color = colors.get(person.category) ?? CAT_COLORS[0];
+    const isAlive = person.death_year === null;
+    const startX = xs(birthPoint(person));
+    const endX = xs(endPoint(person, CURRENT_YEAR));
+    const tipX = isAlive ? endX + ALIVE_EXT : endX;
+
+    // Label after the bar, unless it would run off the page
+    const label = displayName(person, data);
+    const labelW = label.length * labelSize * CHAR_EM;
+    const labelRight = tipX + 1.5 + labelW <= pageW - MARGIN;
+
+    return (
+      <g key={personKey(person)}>
+        <rect
+          x={startX}
+          y={barY}
+          width={Math.max(endX - startX, 0.5)}
+          height={barH}
+          rx={0.4}
+          fill={color}
+          opacity={person.approximate ? 0.52 : 0.82}
+        />
+        {person.approximate && (
+          <rect x={startX} y={barY} width={1} height={barH} fill={PAPER} opacity={0.65} />
+        )}
+        {isAlive && (
+          <>
+            <line
+              x1={endX}
+              y1={midY}
+              x2={tipX - 1}
+              y2={midY}
+              stroke={color}
+              strokeWidth={0.4}
+              strokeDasharray="0.8,1"
+              opacity={0.55}
+            />
+            <path
+              d={`M${tipX - 1.2},${midY - 0.8} L${tipX},${midY} L${tipX - 1.2},${midY + 0.8} z`}
+              fill={INK_MUTED}
+              opacity={0.65}
+            />
+          </>
+        )}
+        <text
+          x={labelRight ? tipX + 1.5 : startX - 1.5}
+          y={midY}
+          textAnchor={labelRight ? "start" : "end"}
+          dominantBaseline="central"
+          fill={INK}
+          opacity={0.8}
+          style={{ fontFamily: "var(--font-mono)", fontSize: labelSize }}
+        >
+          {label}
+        </text>
+      </g>
+    );
+  }
+
+  return (
+    <>
+      {pages.map((rows, p) => (
+        <section
+          key={p}
+          className="print-page"
+          style={{
+            width: `${pageW}mm`,
+            height: `${pageH}mm`,
+            backgroundColor: PAPER,
+            boxShadow: "0 2px 18px rgba(28, 26, 23, 0.18)",
+            flexShrink: 0,
+          }}
+        >
+          <svg
+            viewBox={`0 0 ${pageW} ${pageH}`}
+            width="100%"
+            height="100%"
+            style={{ display: "block" }}
+            aria-label={`Timeline page ${p + 1} of ${pages.length}`}
+            role="img"
+          >
+            {/* ── Title ───────────────────────────────────────────────────── */}
+            <text
+              x={MARGIN}
+              y={MARGIN + 6}
+              fill={INK}
+              style={{ fontFamily: "var(--font-display)", fontSize: 7, fontWeight: 400 }}
+            >
+              {options.title}
+            </text>
+            <text
+              x={pageW - MARGIN}
+              y={MARGIN + 6}
+              textAnchor="end"
+              fill={INK_MUTED}
+              style={{ fontFamily: "var(--font-mono)", fontSize: 2.4, letterSpacing: "0.1em", textTransform: "uppercase" }}
+            >
+              {pages.length > 1 ? `${subtitle} · ${p + 1} / ${pages.length}` : subtitle}
+            </text>
+            <line
+              x1={MARGIN}
+              y1={MARGIN + 9}
+              x2={pageW - MARGIN}
+              y2={MARGIN + 9}
+              stroke={INK_MUTED}
+              strokeWidth={0.25}
+              opacity={0.5}
+            />
+
+            {/* ── Legend ──────────────────────────────────────────────────── */}
+            {legend.items.map(({ category, color, x, line }) => {
+              const ly = MARGIN + HEADER_H + line * LEGEND_LINE_H;
+              return (
+                <g key={category}>
+                  <rect x={MARGIN + x} y={ly - 1.2} width={2.8} height={2.4} fill={color} opacity={0.82} />
+                  <text
+                    x={MARGIN + x + 4}
+                    y={ly}
+                    dominantBaseline="central"
+                    fill={INK}
+                    opacity={0.75}
+                    style={{ fontFamily: "var(--font-mono)", fontSize: LEGEND_SIZE }}
+                  >
+                    {category}
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* ── Grid ────────────────────────────────────────────────────── */}
+            {ticks.map((tick) => (
+              <line
+                key={`grid-${tick}`}
+                x1={xs(tick)}
+                y1={plotTop - 1}
+                x2={xs(tick)}
+                y2={plotBottom}
+                stroke={INK_MUTED}
+                strokeWidth={0.15}
+                opacity={0.35}
+              />
+            ))}
+
+            {/* ── Rows ────────────────────────────────────────────────────── */}
+            {rows.map(renderRow)}
+
+            {/* ── Date axis — repeated on every page ──────────────────────── */}
+            <line
+              x1={MARGIN}
+              y1={plotBottom}
+              x2={pageW - MARGIN}
+              y2={plotBottom}
+              stroke={INK_MUTED}
+              strokeWidth={0.3}
+            />
+            {ticks.map((tick) => (
+              <g key={`tick-${tick}`}>
+                <line
+                  x1={xs(tick)}
+                  y1={plotBottom}
+                  x2={xs(tick)}
+                  y2={plotBottom + 1.5}
+                  stroke={INK_MUTED}
+                  strokeWidth={0.3}
+                />
+                <text
+                  x={xs(tick)}
+                  y={plotBottom + 4.5}
+                  textAnchor="middle"
+                  fill={INK}
+                  opacity={0.82}
+                  style={{ fontFamily: "var(--font-mono)", fontSize: 2.6 }}
+                >
+                  {formatDate(tick)}
+                </text>
+              </g>
+            ))}
+          </svg>
+        </section>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { PersonData, ReResolveOutcome } from "@/types/timeline";
+import { formatDate } from "@/lib/dates";
+import { personKey } from "@/lib/chartUtils";
+
+interface ReResolvePanelProps {
+  person: PersonData;
+  takenKeys: string[]; // other people on the chart — the replacement can't collide
+  onResolve: (hint: string) => Promise<ReResolveOutcome>;
+  onApply: (updated: PersonData, hint: string) => void;
+  onCancel: () => void;
+}
+
+type Stage =
+  | { step: "hint" }
+  | { step: "loading" }
+  | { step: "choose"; candidates: PersonData[] }
+  | { step: "review"; after: PersonData };
+
+const born = (p: PersonData) => formatDate(p.birth_year, p.birth_month, p.birth_day);
+const died = (p: PersonData) => (p.death_year === null ? "present" : formatDate(p.death_year, p.death_month, p.death_day));
+
+// Field-by-field rows for the before/after comparison
+const DIFF_FIELDS: { label: string; value: (p: PersonData) => string }[] = [
+  { label: "Name",        value: (p) => p.name },
+  { label: "Born",        value: born },
+  { label: "Died",        value: died },
+  { label: "Category",    value: (p) => p.category },
+  { label: "Approx.",     value: (p) => (p.approximate ? "yes" : "no") },
+  { label: "Description", value: (p) => p.description ?? "—" },
+];
+
+const labelStyle: React.CSSProperties = {
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.55rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.18em",
+  textTransform: "uppercase",
+};
+
+const buttonStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.6875rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.08em",
+  padding: "0 0 0.2rem",
+  cursor: "pointer",
+};
+
+const primaryButtonStyle: React.CSSProperties = {
+  ...buttonStyle,
+  color: "var(--fg)",
+  borderBottomColor: "var(--accent)",
+};
+
+export default function ReResolvePanel({ person, takenKeys, onResolve, onApply, onCancel }: ReResolvePanelProps) {
+  const [stage, setStage] = useState<Stage>({ step: "hint" });
+  const [hint, setHint] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  async function handleResolve(e: React.FormEvent) {
+    e.preventDefault();
+    setStage({ step: "loading" });
+    setMessage(null);
+    try {
+      const outcome = await onResolve(hint);
+      if (outcome.kind === "person") setStage({ step: "review", after: outcome.person });
+      else if (outcome.kind === "candidates") setStage({ step: "choose", candidates: outcome.candidates });
+      else {
+        setMessage(outcome.reason);
+        setStage({ step: "hint" });
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Something went wrong.");
+      setStage({ step: "hint" });
+    }
+  }
+
+  return (
+    <div
+      // Escape backs out of the re-resolve rather than closing the whole modal
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+      style={{ display: "flex", flexDirection: "column", gap: "1.25rem" }}
+    >
+      <span
+        style={{
+          fontFamily: "var(--font-display)",
+          fontSize: "1.5rem",
+          fontWeight: 300,
+          color: "var(--fg)",
+          letterSpacing: "-0.02em",
+        }}
+      >
+        Re-resolve {person.name}
+      </span>
+
+      {(stage.step === "hint" || stage.step === "loading") && (
+        <form onSubmit={handleResolve} style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+          <label style={{ ...labelStyle, display: "flex", flexDirection: "column", gap: "0.3rem" }}>
+            Hint (optional)
+            <input
+              value={hint}
+              autoFocus
+              disabled={stage.step === "loading"}
+              placeholder="e.g. the physicist, not the footballer"
+              onChange={(e) => setHint(e.target.value)}
+              style={{
+                background: "none",
+                border: "none",
+                borderBottom: "1px solid var(--border)",
+                fontFamily: "var(--font-mono)",
+                fontSize: "0.875rem",
+                color: "var(--fg)",
+                letterSpacing: "0.02em",
+                textTransform: "none",
+                padding: "0.2rem 0",
+                outline: "none",
+              }}
+            />
+          </label>
+          {message && (
+            <span style={{ fontFamily: "var(--font-mono)", fontSize: "0.6875rem", color: "var(--accent)", fontStyle: "italic" }}>
+              {message}
+            </span>
+          )}
+          <div style={{ display: "flex", gap: "1.25rem" }}>
+            <button type="submit" disabled={stage.step === "loading"} style={primaryButtonStyle}>
+              {stage.step === "loading" ? "asking…" : "ask again"}
+            </button>
+            <button type="button" onClick={onCancel} style={buttonStyle}>cancel</button>
+          </div>
+        </form>
+      )}
+
+      {stage.step === "choose" && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "0.75rem" }}>
+          <span style={labelStyle}>Several people match — which one?</span>
+          <ul style={{ listStyle: "none", display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+            {stage.candidates.map((c, i) => (
+              <li key={`${c.name}-${c.birth_year}-${i}`}>
+                <button
+                  onClick={() => setStage({ step: "review", after: c })}
+                  style={{
+                    width: "100%",
+                    textAlign: "left",
+                    background: "none",
+                    border: "none",
+                    borderLeft: "1px solid var(--border)",
+                    padding: "0.25rem 0 0.25rem 0.875rem",
+                    fontFamily: "var(--font-mono)",
+                    fontSize: "0.8125rem",
+                    color: "var(--fg)",
+                    cursor: "pointer",
+                  }}
+                >
+                  {c.name}{" "}
+                  <span style={{ fontSize: "0.6875rem", color: "var(--fg-muted)" }}>
+                    {born(c)} – {died(c)} · {c.category}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button onClick={() => setStage({ step: "hint" })} style={{ ...buttonStyle, alignSelf: "flex-start" }}>
+            back
+          </button>
+        </div>
+      )}
+
+      {stage.step === "review" && (() => {
+        const { after } = stage;
+        const changed = DIFF_FIELDS.filter((f) => f.value(person) !== f.value(after));
+        const collides = personKey(after) !== personKey(person) && takenKeys.includes(personKey(after));
+        return (
+          <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+            {changed.length === 0 ? (
+              <span style={{ fontFamily: "var(--font-display)", fontSize: "1rem", fontStyle: "italic", color: "var(--fg-muted)" }}>
+                No changes — the new answer matches the chart.
+              </span>
+            ) : (
+              <table style={{ borderCollapse: "collapse", width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th />
+                    <th style={{ ...labelStyle, textAlign: "left", fontWeight: 400, paddingBottom: "0.375rem" }}>Before</th>
+                    <th style={{ ...labelStyle, textAlign: "left", fontWeight: 400, paddingBottom: "0.375rem" }}>After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {DIFF_FIELDS.map((f) => {
+                    const isChanged = changed.includes(f);
+                    return (
+                      <tr key={f.label} style={{ opacity: isChanged ? 1 : 0.35, verticalAlign: "baseline" }}>
+                        <td style={{ ...labelStyle, paddingRight: "0.75rem", whiteSpace: "nowrap" }}>{f.label}</td>
+                        <td
+                          style={{
+                            fontFamily: "var(--font-mono)",
+                            fontSize: "0.75rem",
+                            color: "var(--fg-muted)",
+                            textDecoration: isChanged ? "line-through" : "none",
+                            padding: "0.2rem 0.75rem 0.2rem 0",
+                          }}
+                        >
+                          {f.value(person)}
+                        </td>
+                        <td
+                          style={{
+                            fontFamily: "var(--font-mono)",
+                            fontSize: "0.75rem",
+                            color: isChanged ? "var(--accent)" : "var(--fg)",
+                            padding: "0.2rem 0",
+                          }}
+                        >
+                          {f.value(after)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {person.overridden && changed.length > 0 && (
+              <span style={{ fontFamily: "var(--font-mono)", fontSize: "0.6875rem", color: "var(--fg-muted)", fontStyle: "italic" }}>
+                This entry was edited by hand — replacing it discards those edits.
+              </span>
+            )}
+            {collides && (
+              <span style={{ fontFamily: "var(--font-mono)", fontSize: "0.6875rem", color: "var(--accent)", fontStyle: "italic" }}>
+                {after.name} is already on the chart.
+              </span>
+            )}
+
+            <div style={{ display: "flex", gap: "1.25rem" }}>
+              {changed.length > 0 && !collides && (
+                <button onClick={() => onApply(after, hint)} style={primaryButtonStyle}>
+                  {person.overridden ? "replace my edits" : "replace"}
+                </button>
+              )}
+              <button onClick={() => setStage({ step: "hint" })} style={buttonStyle}>try another hint</button>
+              <button onClick={onCancel} style={buttonStyle}>{changed.length === 0 ? "close" : "keep current"}</button>
+            </div>
+          </div>
+        );
+      })()}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+interface SharedBannerProps {
+  name: string;
+  count: number;
+  onFork: () => void;
+  onClose: () => void;
+}
+
+const linkStyle: React.CSSProperties = {
+  background: "none",
+  border: "none",
+  borderBottom: "1px solid var(--border)",
+  fontFamily: "var(--font-mono)",
+  fontSize: "0.6875rem",
+  color: "var(--fg-muted)",
+  letterSpacing: "0.08em",
+  padding: "0 0 0.2rem",
+  cursor: "pointer",
+};
+
+// Top-left notice while viewing someone else's chart from a share link —
+// takes the place of the eraser and library switcher
+export default function SharedBanner({ name, count, onFork, onClose }: SharedBannerProps) {
+  return (
+    <div
+      style={{
+        position: "fixed",
+        top: "1.25rem",
+        left: "1.25rem",
+        zIndex: 100,
+        display: "flex",
+        alignItems: "baseline",
+        flexWrap: "wrap",
+        gap: "1.25rem",
+        maxWidth: "min(640px, 60vw)",
+      }}
+    >
+      <span
+        style={{
+          fontFamily: "var(--font-mono)",
+          fontSize: "0.575rem",
+          letterSpacing: "0.2em",
+          textTransform: "uppercase",
+          color: "var(--fg-muted)",
+          userSelect: "none",
+        }}
+      >
+        Shared · read-only
+      </span>
+      <span
+        style={{
+          fontFamily: "var(--font-display)",
+          fontSize: "1.125rem",
+          fontStyle: "italic",
+          color: "var(--fg)",
+          overflow: "hidden",
+          textOverflow: "ellipsis",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {name} <span style={{ color: "var(--fg-muted)" }}>({count})</span>
+      </span>
+      <button onClick={onFork} style={{ ...linkStyle, color: "var(--fg)", borderBottomColor: "var(--accent)" }}>
+        save to my library
+      </button>
+      <button onClick={onClose} style={linkStyle}>
+        back to my charts
+      </button>
+    </div>
+  );
+}
@@ -1,12 +1,23 @@
 "use client";
 
-import { useRef, useState, useEffect, useMemo } from "react";
-import { TimelineData, PersonData } from "@/types/timeline";
+import { useRef, useState, useEffect, useMemo, useCallback } from "react";
+import { TimelineData, PersonData, ChartLayout, SortKey } from "@/types/timeline";
 import {
+  groupByCategory,
+  packLanes,
+  personKey,
+  displayName,
+  sortPeople,
   getYearRange,
   getTickInterval,
   getTicks,
+  clampView,
+  zoomView,
+  categoryColors,
+  CAT_COLORS,
+  YearView,
 } from "@/lib/chartUtils";
+import { birthPoint, endPoint, formatDate } from "@/lib/dates";
 
 // ── Layout constants ──────────────────────────────────────────────────────────
 const PAD_BOTTOM     = 60;
@@ -14,6 +25,9 @@ const RESERVED_TOP   = 120;
 const CURRENT_YEAR   = 2026;
 const ARROW_EXT      = 48;
 const MIN_CHART_WIDTH = 900; // minimum SVG width on mobile — enables horizontal scroll
+const BAND_LABEL_H   = 22;  // grouped layout — space above each category's first bar
+const BAND_GAP       = 18;  // grouped layout — extra space between categories
+const LANE_GAP_FRAC  = 0.02; // packed layout — min gap between lane-mates, as a share of the year range
 
 // ── Animation constants ───────────────────────────────────────────────────────
 const BAR_DRAW_DURATION  = 700;  // ms — time for a single bar to draw in
@@ -22,11 +36,10 @@ const LABEL_FADE_DURATION = 200; // ms — label fade after bar finishes
 const TICK_STAGGER       = 50;   // ms — offset between tick labels
 const BAR_EXIT_DURATION  = 320;  // ms — bar fade-out on removal
 
-// Desaturated ink tones — mirrors --cat-0..7 in globals.css
-const CAT_COLORS = [
-  "#7a6e5f", "#5f6e6a", "#6e5f7a", "#7a6a5f",
-  "#5f7a6e", "#6a6e5f", "#7a5f6a", "#5f6a7a",
-];
+// ── Zoom constants ────────────────────────────────────────────────────────────
+const MIN_VIEW_SPAN   = 5;       // years — deepest zoom
+const WHEEL_ZOOM_RATE = 0.0015;  // per wheel delta unit
+const PINCH_ZOOM_RATE = 0.01;    // trackpad pinch arrives as ctrl+wheel with small deltas
 
 // Approx char width for DM Mono at 10px
 const CHAR_W = 6.3;
@@ -38,53 +51,136 @@ interface FlatRow {
   color: string;
 }
 
+// Category heading in the grouped layout
+interface Band {
+  category: string;
+  labelY: number;
+  color: string;
+}
+
 // ── Pure helpers ──────────────────────────────────────────────────────────────
 
-function computeContentHeight(data: TimelineData, barH: number, barGap: number): number {
+function computeContentHeight(
+  data: TimelineData,
+  layout: ChartLayout,
+  barH: number,
+  barGap: number,
+): number {
   const n = data.length;
-  return n * (barH + barGap) - barGap + PAD_BOTTOM;
+  const flat = n * (barH + barGap) - barGap + PAD_BOTTOM;
+  if (layout === "flat") return flat;
+  if (layout === "packed") {
+    const { laneCount } = packLanes(data, laneGap(data), CURRENT_YEAR);
+    return laneCount * (barH + barGap) - barGap + PAD_BOTTOM;
+  }
+  const groups = new Set(data.map((p) => p.category)).size;
+  return flat + groups * (BAND_LABEL_H + BAND_GAP) - BAND_GAP;
+}
+
+// Minimum gap between consecutive bars sharing a packed lane, in years
+function laneGap(data: TimelineData): number {
+  const [minYear, maxYear] = getYearRange(data, CURRENT_YEAR);
+  return (maxYear - minYear) * LANE_GAP_FRAC;
 }
 
 function buildFlatLayout(
   data: TimelineData,
+  sortKey: SortKey,
   topOffset: number,
   barH: number,
   barGap: number,
-): { rows: FlatRow[] } {
-  const catColor = new Map<string, string>();
-  let ci = 0;
-  for (const p of data) {
-    if (!catColor.has(p.category)) {
-      catColor.set(p.category, CAT_COLORS[ci % CAT_COLORS.length]);
-      ci++;
-    }
-  }
+): { rows: FlatRow[]; bands: Band[] } {
+  const catColor = categoryColors(data);
 
-  const sorted = [...data].sort((a, b) => a.birth_year - b.birth_year);
+  const sorted = sortPeople(data, sortKey, CURRENT_YEAR);
   const rows: FlatRow[] = sorted.map((person, i) => ({
     person,
     barY: topOffset + i * (barH + barGap),
     color: catColor.get(person.category) ?? CAT_COLORS[0],
   }));
 
-  return { rows };
+  return { rows, bands: [] };
 }
 
+function buildGroupedLayout(
+  data: TimelineData,
+  sortKey: SortKey,
+  topOffset: number,
+  barH: number,
+  barGap: number,
+): { rows: FlatRow[]; bands: Band[] } {
+  const catColor = categoryColors(data);
+  const rows: FlatRow[] = [];
+  const bands: Band[] = [];
+
+  let y = topOffset;
+  for (const [category, people] of groupByCategory(data)) {
+    const color = catColor.get(category) ?? CAT_COLORS[0];
+    bands.push({ category, labelY: y, color });
+    y += BAND_LABEL_H;
+    for (const person of sortPeople(people, sortKey, CURRENT_YEAR)) {
+      rows.push({ person, barY: y, color });
+      y += barH + barGap;
+    }
+    y += BAND_GAP;
+  }
+
+  return { rows, bands };
+}
+
+// Lanes are packed in birth order, so the sort key does not apply here
+function buildPackedLayout(
+  data: TimelineData,
+  _sortKey: SortKey,
+  topOffset: number,
+  barH: number,
+  barGap: number,
+): { rows: FlatRow[]; bands: Band[] } {
+  const catColor = categoryColors(data);
+  const { lanes } = packLanes(data, laneGap(data), CURRENT_YEAR);
+
+  const rows: FlatRow[] = data.map((person) => ({
+    person,
+    barY: topOffset + (lanes.get(personKey(person)) ?? 0) * (barH + barGap),
+    color: catColor.get(person.category) ?? CAT_COLORS[0],
+  }));
+
+  return { rows, bands: [] };
+}
+
+const LAYOUT_BUILDERS = {
+  flat: buildFlatLayout,
+  grouped: buildGroupedLayout,
+  packed: buildPackedLayout,
+};
+
 // ── Component ─────────────────────────────────────────────────────────────────
 export default function TimelineChart({
   data,
+  layout = "flat",
+  sortKey = "birth",
   onPersonClick,
   onRemovePerson,
+  svgRef: externalSvgRef,
 }: {
   data: TimelineData;
+  layout?: ChartLayout;
+  sortKey?: SortKey;
   onPersonClick?: (person: PersonData, color: string) => void;
-  onRemovePerson?: (name: string) => void;
+  onRemovePerson?: (person: PersonData) => void;
+  /** Lets the parent reach the rendered <svg>, e.g. for export */
+  svgRef?: React.RefObject<SVGSVGElement | null>;
 }) {
   const wrapRef = useRef<HTMLDivElement>(null);
   const [dims, setDims] = useState({ w: 0, h: 0 });
   const [hoveredBar, setHoveredBar] = useState<string | null>(null);
   const [hoveredX, setHoveredX] = useState<string | null>(null);
   const [exitingNames, setExitingNames] = useState<Set<string>>(new Set());
+  // Visible year window — null means "fit everyone", the default
+  const [view, setView] = useState<YearView | null>(null);
+  const [panning, setPanning] = useState(false);
+  const ownSvgRef = useRef<SVGSVGElement>(null);
+  const svgRef = externalSvgRef ?? ownSvgRef;
 
   // Per-person animation delay, computed once per name and cached in a ref.
   // Map is idempotent: existing names keep their delay, new names get
@@ -113,17 +209,23 @@ export default function TimelineChart({
   // On mobile: SVG is wider than viewport → wrapper scrolls horizontally
   const svgW      = isMobile ? Math.max(dims.w, MIN_CHART_WIDTH) : dims.w;
 
-  const contentH = useMemo(() => computeContentHeight(data, BAR_H, BAR_GAP), [data, BAR_H, BAR_GAP]);
+  const contentH = useMemo(
+    () => computeContentHeight(data, layout, BAR_H, BAR_GAP),
+    [data, layout, BAR_H, BAR_GAP]
+  );
   const topOffset = dims.h > 0
     ? RESERVED_TOP + Math.max(0, (dims.h - RESERVED_TOP - contentH) * 0.62)
     : RESERVED_TOP;
 
-  const { rows } = useMemo(
-    () => buildFlatLayout(data, topOffset, BAR_H, BAR_GAP),
-    [data, topOffset, BAR_H, BAR_GAP]
+  // Switching layouts or sort order only changes each row's barY — the translateY
+  // transition on every bar group slides them into their new slots
+  const { rows, bands } = useMemo(
+    () => LAYOUT_BUILDERS[layout](data, sortKey, topOffset, BAR_H, BAR_GAP),
+    [data, layout, sortKey, topOffset, BAR_H, BAR_GAP]
   );
 
-  const [minYear, maxYear] = useMemo(() => getYearRange(data, CURRENT_YEAR), [data]);
+  const fullRange = useMemo(() => getYearRange(data, CURRENT_YEAR), [data]);
+  const [minYear, maxYear] = view ?? fullRange;
   const chartW = Math.max(0, svgW - PAD_LEFT - PAD_RIGHT);
 
   function xs(year: number): number {
@@ -138,21 +240,107 @@ export default function TimelineChart({
 
   const axisY = topOffset + contentH - PAD_BOTTOM;
 
+  // ── Zoom + pan ──────────────────────────────────────────────────────────────
+  // Native listeners read the latest scale through this ref, so they can be
+  // attached once instead of on every render.
+  const scaleRef = useRef({ minYear, maxYear, chartW, padLeft: PAD_LEFT, fullRange, zoomed: view !== null });
+  scaleRef.current = { minYear, maxYear, chartW, padLeft: PAD_LEFT, fullRange, zoomed: view !== null };
+
+  const yearAtX = useCallback((clientX: number): number => {
+    const { minYear, maxYear, chartW, padLeft } = scaleRef.current;
+    const left = svgRef.current?.getBoundingClientRect().left ?? 0;
+    return minYear + ((clientX - left - padLeft) / (chartW || 1)) * (maxYear - minYear);
+  }, [svgRef]);
+
+  // Returns whether the view actually moved, so callers know if they consumed the gesture
+  const applyView = useCallback((next: YearView): boolean => {
+    const { minYear, maxYear, fullRange, zoomed } = scaleRef.current;
+    const clamped = clampView(next, fullRange, MIN_VIEW_SPAN);
+    const changed = clamped
+      ? !zoomed || clamped[0] !== minYear || clamped[1] !== maxYear
+      : zoomed;
+    if (changed) setView(clamped);
+    return changed;
+  }, []);
+
+  // Wheel zooms around the cursor, horizontal / shift+wheel pans. Attached
+  // natively (passive: false) so pinch-zoom doesn't also zoom the page.
+  // Unzoomed, only a pinch (ctrl+wheel) is taken — plain wheel and
+  // horizontal scroll fall through to the page and the chart wrapper.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      const { minYear, maxYear, chartW, zoomed } = scaleRef.current;
+      if (!zoomed && !e.ctrlKey) return;
+      const span = maxYear - minYear;
+      const dx = e.shiftKey ? e.deltaY : e.deltaX;
+      let changed: boolean;
+      if (Math.abs(dx) > Math.abs(e.deltaY) || e.shiftKey) {
+        const shift = (dx / (chartW || 1)) * span;
+        changed = applyView([minYear + shift, maxYear + shift]);
+      } else {
+        const rate = e.ctrlKey ? PINCH_ZOOM_RATE : WHEEL_ZOOM_RATE;
+        changed = applyView(zoomView([minYear, maxYear], yearAtX(e.clientX), Math.exp(e.deltaY * rate)));
+      }
+      if (changed) e.preventDefault();
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, [dims.w, svgRef, applyView, yearAtX]);
+
+  // Drag pans; two touch points pinch-zoom around their midpoint
+  const pointersRef = useRef<Map<number, number>>(new Map());
+
+  function handlePointerDown(e: React.PointerEvent<SVGRectElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, e.clientX);
+    setPanning(true);
+  }
+
+  function handlePointerMove(e: React.PointerEvent<SVGRectElement>) {
+    const pointers = pointersRef.current;
+    const prevX = pointers.get(e.pointerId);
+    if (prevX === undefined) return;
+    const { minYear, maxYear, chartW } = scaleRef.current;
+    const span = maxYear - minYear;
+
+    if (pointers.size === 1) {
+      const shift = ((prevX - e.clientX) / (chartW || 1)) * span;
+      applyView([minYear + shift, maxYear + shift]);
+    } else if (pointers.size === 2) {
+      const otherX = [...pointers.entries()].find(([id]) => id !== e.pointerId)![1];
+      const prevDist = Math.abs(prevX - otherX);
+      const nextDist = Math.abs(e.clientX - otherX);
+      if (prevDist > 0 && nextDist > 0) {
+        const anchor = yearAtX((e.clientX + otherX) / 2);
+        applyView(zoomView([minYear, maxYear], anchor, prevDist / nextDist));
+      }
+    }
+    pointers.set(e.pointerId, e.clientX);
+  }
+
+  function handlePointerUp(e: React.PointerEvent<SVGRectElement>) {
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size === 0) setPanning(false);
+  }
+
   // ── Compute animation delays (idempotent — ref.has() guards re-assignment) ──
   {
     let newBarCount = 0;
     for (const row of rows) {
-      if (!animDelayMapRef.current.has(row.person.name)) {
-        animDelayMapRef.current.set(row.person.name, newBarCount * BAR_STAGGER);
+      if (!animDelayMapRef.current.has(personKey(row.person))) {
+        animDelayMapRef.current.set(personKey(row.person), newBarCount * BAR_STAGGER);
         newBarCount++;
       }
     }
   }
   {
+    // Ticks revealed by zooming or panning appear at once — no stagger
     let newTickCount = 0;
     for (const tick of ticks) {
       if (!tickDelayMapRef.current.has(tick)) {
-        tickDelayMapRef.current.set(tick, newTickCount * TICK_STAGGER);
+        tickDelayMapRef.current.set(tick, view ? 0 : newTickCount * TICK_STAGGER);
         newTickCount++;
       }
     }
@@ -175,6 +363,7 @@ export default function TimelineChart({
       }}
     >
       <svg
+        ref={svgRef}
         width={svgW}
         height={dims.h}
         style={{ display: "block", overflow: "visible" }}
@@ -192,8 +381,33 @@ export default function TimelineChart({
           >
             <path d="M0,1 L0,6 L6,3.5 z" fill="var(--fg-muted)" opacity="0.65" />
           </marker>
+          {/* Bars and grid stay inside the plotting area when zoomed */}
+          <clipPath id="plot-area">
+            <rect x={PAD_LEFT} y={0} width={svgW - PAD_LEFT} height={dims.h} />
+          </clipPath>
         </defs>
 
+        {/* ── Pan / zoom surface — behind everything, catches drags on empty space ── */}
+        <rect
+          x={0}
+          y={0}
+          width={svgW}
+          height={dims.h}
+          fill="transparent"
+          data-export="skip"
+          style={{
+            pointerEvents: "all",
+            // Unzoomed, swipes scroll the wrapper natively; zoomed, every
+            // touch gesture pans or pinches the chart
+            touchAction: view ? "none" : "pan-x pan-y",
+            cursor: panning ? "grabbing" : view ? "grab" : "default",
+          }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+
         {/* ── Vertical grid lines (static — subtle reference, no animation) ── */}
         {ticks.map((tick) => (
           <line
@@ -208,184 +422,250 @@ export default function TimelineChart({
           />
         ))}
 
-        {/* ── Person bars ───────────────────────────────────────────────────── */}
-        {rows.map(({ person, barY, color }) => {
-          const bx = xs(person.birth_year);
-          const solidEndX = xs(person.death_year ?? CURRENT_YEAR);
-          const barW = Math.max(2, solidEndX - bx);
-          // All y-coords are relative to the group's translateY — so midBarY is just BAR_H/2
-          const midY = BAR_H / 2;
-          const isAlive = person.death_year === null;
-
-          const arrowEndX = isAlive
-            ? Math.min(solidEndX + ARROW_EXT, svgW - 14)
-            : 0;
-
-          const nameW = person.name.length * CHAR_W;
-          const rightOfBar = isAlive ? arrowEndX : solidEndX;
-          const nameRightX = rightOfBar + 8;
-          const nameOnLeft = nameRightX + nameW > svgW - 8;
-          const nameX = nameOnLeft ? bx - 5 : nameRightX;
-          const nameAnchor = nameOnLeft ? "end" : "start";
-
-          const barDelay = animDelayMapRef.current.get(person.name) ?? 0;
-          const labelDelay = barDelay + BAR_DRAW_DURATION;
-
-          const isBarHovered = hoveredBar === person.name;
-          const isXHovered = hoveredX === person.name;
-          const isExiting = exitingNames.has(person.name);
-
-          // × position: after name label when on right, or after bar end when name is on left
-          const xBtnX = nameOnLeft
-            ? rightOfBar + 10
-            : nameRightX + nameW + 6;
-
-          return (
-            /*
-              Outer <g>: positions the bar via CSS transform (not SVG y-attr).
-              Using transform lets CSS transition the position when bars shift
-              after a removal — all remaining bars slide smoothly to their new slots.
-            */
-            <g
-              key={person.name}
+        {/* ── Category band labels (grouped layout) ─────────────────────────── */}
+        {bands.map(({ category, labelY, color }) => (
+          <g
+            key={`band-${category}`}
+            style={{
+              transform: `translateY(${labelY}px)`,
+              transition: `transform 380ms cubic-bezier(0.7,0,0.3,1)`,
+            }}
+          >
+            <line
+              x1={PAD_LEFT}
+              y1={BAND_LABEL_H - 8}
+              x2={svgW - PAD_RIGHT}
+              y2={BAND_LABEL_H - 8}
+              stroke={color}
+              strokeWidth={0.5}
               style={{
-                transform: `translateY(${barY}px)`,
-                // Position shift: only when NOT part of the entrance animation
-                transition: `transform 380ms cubic-bezier(0.7,0,0.3,1)`,
-              }}
+                ["--final-opacity" as string]: "0.35",
+                animation: "timeline-fade 300ms ease 120ms both",
+              } as React.CSSProperties}
+            />
+            <text
+              x={PAD_LEFT}
+              y={BAND_LABEL_H - 13}
+              style={{
+                fontFamily: "var(--font-mono)",
+                fontSize: "9px",
+                letterSpacing: "0.18em",
+                textTransform: "uppercase",
+                fill: color,
+                userSelect: "none",
+                pointerEvents: "none",
+                ["--final-opacity" as string]: "0.9",
+                animation: "timeline-fade 300ms ease 120ms both",
+              } as React.CSSProperties}
             >
-              {/*
-                Inner <g>: handles hover interactions + exit fade.
-                Kept separate from the transform layer so opacity and
-                position transitions don't fight each other.
-              */}
+              {category}
+            </text>
+          </g>
+        ))}
+
+        {/* ── Person bars ───────────────────────────────────────────────────── */}
+        <g clipPath={view ? "url(#plot-area)" : undefined}>
+          {rows.map(({ person, barY, color }) => {
+            const key = personKey(person);
+            const label = displayName(person, data);
+            const bx = xs(birthPoint(person));
+            const solidEndX = xs(endPoint(person, CURRENT_YEAR));
+            const barW = Math.max(2, solidEndX - bx);
+            // All y-coords are relative to the group's translateY — so midBarY is just BAR_H/2
+            const midY = BAR_H / 2;
+            const isAlive = person.death_year === null;
+
+            const arrowEndX = isAlive
+              ? Math.min(solidEndX + ARROW_EXT, svgW - 14)
+              : 0;
+
+            const nameW = label.length * CHAR_W;
+            const rightOfBar = isAlive ? arrowEndX : solidEndX;
+            const nameRightX = rightOfBar + 8;
+            const nameOnLeft = nameRightX + nameW > svgW - 8;
+            // Zoomed in, a bar can run off both edges — pin its label just
+            // inside the visible start so it stays readable
+            const nameInside = nameOnLeft && view !== null && bx - 5 - nameW < PAD_LEFT;
+            // Packed lanes have no room beside bars: the label sits inside the
+            // bar when it fits, otherwise it only appears on hover
+            const visibleBarW = Math.min(solidEndX, svgW) - Math.max(bx, PAD_LEFT);
+            const labelInBar = layout === "packed" && visibleBarW >= nameW + 10;
+            const labelOnHover = layout === "packed" && !labelInBar;
+            const nameX = nameInside || labelInBar
+              ? Math.max(bx, PAD_LEFT) + (labelInBar ? 5 : 6)
+              : nameOnLeft ? bx - 5 : nameRightX;
+            const nameAnchor = nameOnLeft && !nameInside && !labelInBar ? "end" : "start";
+
+            const barDelay = animDelayMapRef.current.get(key) ?? 0;
+            const labelDelay = barDelay + BAR_DRAW_DURATION;
+
+            const isBarHovered = hoveredBar === key;
+            const isXHovered = hoveredX === key;
+            const isExiting = exitingNames.has(key);
+
+            // × position: after name label when on right, or after bar end when
+            // name is on the left or inside the bar
+            const xBtnX = nameOnLeft || labelInBar
+              ? rightOfBar + 10
+              : nameRightX + nameW + 6;
+
+            return (
+              /*
+                Outer <g>: positions the bar via CSS transform (not SVG y-attr).
+                Using transform lets CSS transition the position when bars shift
+                after a removal — all remaining bars slide smoothly to their new slots.
+              */
               <g
-                className="bar-group"
+                key={key}
                 style={{
-                  pointerEvents: isExiting ? "none" : "auto",
-                  cursor: onPersonClick ? "pointer" : "default",
-                  // Only set opacity/transition via inline style when exiting.
-                  // When idle, let globals.css `.bar-group:hover` rules control opacity
-                  // (inline styles would override those CSS rules if always present).
-                  ...(isExiting ? {
-                    opacity: 0,
-                    transition: `opacity ${BAR_EXIT_DURATION}ms cubic-bezier(0.7,0,0.3,1)`,
-                  } : {}),
+                  transform: `translateY(${barY}px)`,
+                  // Position shift: only when NOT part of the entrance animation
+                  transition: `transform 380ms cubic-bezier(0.7,0,0.3,1)`,
                 }}
-                onMouseEnter={() => !isExiting && setHoveredBar(person.name)}
-                onMouseLeave={() => { setHoveredBar(null); setHoveredX(null); }}
-                onClick={() => !isExiting && onPersonClick?.(person, color)}
               >
                 {/*
-                  Draw animation <g>: clip-path bar-draw animation.
-                  All rects/lines use y=0 / midY (relative to outer translateY).
+                  Inner <g>: handles hover interactions + exit fade.
+                  Kept separate from the transform layer so opacity and
+                  position transitions don't fight each other.
                 */}
                 <g
+                  className="bar-group"
                   style={{
-                    animation: `bar-draw ${BAR_DRAW_DURATION}ms cubic-bezier(0.7,0,0.3,1) ${barDelay}ms both`,
+                    pointerEvents: isExiting ? "none" : "auto",
+                    cursor: onPersonClick ? "pointer" : "default",
+                    // Only set opacity/transition via inline style when exiting.
+                    // When idle, let globals.css `.bar-group:hover` rules control opacity
+                    // (inline styles would override those CSS rules if always present).
+                    ...(isExiting ? {
+                      opacity: 0,
+                      transition: `opacity ${BAR_EXIT_DURATION}ms cubic-bezier(0.7,0,0.3,1)`,
+                    } : {}),
                   }}
+                  onMouseEnter={() => !isExiting && setHoveredBar(key)}
+                  onMouseLeave={() => { setHoveredBar(null); setHoveredX(null); }}
+                  onClick={() => !isExiting && onPersonClick?.(person, color)}
                 >
-                  {/* Solid bar */}
-                  <rect
-                    x={bx}
-                    y={0}
-                    width={barW}
-                    height={BAR_H}
-                    fill={color}
-                    opacity={person.approximate ? 0.52 : 0.82}
-                    rx={1.5}
-                    ry={1.5}
-                  />
-
-                  {/* Approximate: open left-edge notch */}
-                  {person.approximate && (
+                  {/*
+                    Draw animation <g>: clip-path bar-draw animation.
+                    All rects/lines use y=0 / midY (relative to outer translateY).
+                  */}
+                  <g
+                    style={{
+                      animation: `bar-draw ${BAR_DRAW_DURATION}ms cubic-bezier(0.7,0,0.3,1) ${barDelay}ms both`,
+                    }}
+                  >
+                    {/* Solid bar */}
                     <rect
                       x={bx}
                       y={0}
-                      width={4}
+                      width={barW}
                       height={BAR_H}
-                      fill="var(--bg)"
-                      opacity={0.65}
+                      fill={color}
+                      opacity={person.approximate ? 0.52 : 0.82}
                       rx={1.5}
+                      ry={1.5}
                     />
-                  )}
 
-                  {/* Living person: dashed extension + arrow */}
-                  {isAlive && (
-                    <line
-                      x1={solidEndX}
-                      y1={midY}
-                      x2={arrowEndX}
-                      y2={midY}
-                      stroke={color}
-                      strokeWidth={1.5}
-                      strokeDasharray="3,4"
-                      opacity={0.55}
-                      markerEnd="url(#alive-arrow)"
-                    />
-                  )}
-                </g>
-
-                {/* Name label — fades in only after its bar finishes drawing */}
-                <text
-                  x={nameX}
-                  y={midY}
-                  textAnchor={nameAnchor}
-                  dominantBaseline="middle"
-                  style={{
-                    fontFamily: "var(--font-mono)",
-                    fontSize: "10px",
-                    fill: "var(--fg)",
-                    userSelect: "none",
-                    pointerEvents: "none",
-                    ["--final-opacity" as string]: "0.8",
-                    animation: `timeline-fade ${LABEL_FADE_DURATION}ms ease ${labelDelay}ms both`,
-                  } as React.CSSProperties}
-                >
-                  {person.name}
-                </text>
-
-                {/* × remove button — appears only on bar hover */}
-                {onRemovePerson && (
-                  <text
-                    x={xBtnX}
-                    y={midY}
-                    textAnchor="start"
-                    dominantBaseline="middle"
+                    {/* Approximate: open left-edge notch */}
+                    {person.approximate && (
+                      <rect
+                        x={bx}
+                        y={0}
+                        width={4}
+                        height={BAR_H}
+                        fill="var(--bg)"
+                        opacity={0.65}
+                        rx={1.5}
+                      />
+                    )}
+
+                    {/* Living person: dashed extension + arrow */}
+                    {isAlive && (
+                      <line
+                        x1={solidEndX}
+                        y1={midY}
+                        x2={arrowEndX}
+                        y2={midY}
+                        stroke={color}
+                        strokeWidth={1.5}
+                        strokeDasharray="3,4"
+                        opacity={0.55}
+                        markerEnd="url(#alive-arrow)"
+                      />
+                    )}
+                  </g>
+
+                  {/* Name label — fades in only after its bar finishes drawing.
+                      Hover-only labels are hidden by the wrapping group, since
+                      the fade animation owns the text's own opacity. */}
+                  <g
                     style={{
-                      fontFamily: "var(--font-mono)",
-                      fontSize: "11px",
-                      fill: "var(--fg)",
-                      userSelect: "none",
-                      cursor: "pointer",
-                      opacity: isBarHovered ? (isXHovered ? 0.75 : 0.35) : 0,
+                      opacity: labelOnHover && !isBarHovered ? 0 : 1,
                       transition: "opacity 0.15s ease",
                     }}
-                    onMouseEnter={(e) => { e.stopPropagation(); setHoveredX(person.name); }}
-                    onMouseLeave={(e) => { e.stopPropagation(); setHoveredX(null); }}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      // Start exit animation, then notify parent after it completes
-                      setExitingNames(prev => new Set(prev).add(person.name));
-                      setHoveredBar(null);
-                      setHoveredX(null);
-                      setTimeout(() => {
-                        onRemovePerson(person.name);
-                        setExitingNames(prev => {
-                          const next = new Set(prev);
-                          next.delete(person.name);
-                          return next;
-                        });
-                      }, BAR_EXIT_DURATION + 40);
-                    }}
                   >
-                    ×
-                  </text>
-                )}
+                    <text
+                      x={nameX}
+                      y={midY}
+                      textAnchor={nameAnchor}
+                      dominantBaseline="middle"
+                      style={{
+                        fontFamily: "var(--font-mono)",
+                        fontSize: "10px",
+                        fill: labelInBar ? "var(--bg)" : "var(--fg)",
+                        userSelect: "none",
+                        pointerEvents: "none",
+                        ["--final-opacity" as string]: labelInBar ? "0.95" : "0.8",
+                        animation: `timeline-fade ${LABEL_FADE_DURATION}ms ease ${labelDelay}ms both`,
+                      } as React.CSSProperties}
+                    >
+                      {label}
+                    </text>
+                  </g>
+
+                  {/* × remove button — appears only on bar hover */}
+                  {onRemovePerson && (
+                    <text
+                      x={xBtnX}
+                      y={midY}
+                      textAnchor="start"
+                      dominantBaseline="middle"
+                      data-export="skip"
+                      style={{
+                        fontFamily: "var(--font-mono)",
+                        fontSize: "11px",
+                        fill: "var(--fg)",
+                        userSelect: "none",
+                        cursor: "pointer",
+                        opacity: isBarHovered ? (isXHovered ? 0.75 : 0.35) : 0,
+                        transition: "opacity 0.15s ease",
+                      }}
+                      onMouseEnter={(e) => { e.stopPropagation(); setHoveredX(key); }}
+                      onMouseLeave={(e) => { e.stopPropagation(); setHoveredX(null); }}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        // Start exit animation, then notify parent after it completes
+                        setExitingNames(prev => new Set(prev).add(key));
+                        setHoveredBar(null);
+                        setHoveredX(null);
+                        setTimeout(() => {
+                          onRemovePerson(person);
+                          setExitingNames(prev => {
+                            const next = new Set(prev);
+                            next.delete(key);
+                            return next;
+                          });
+                        }, BAR_EXIT_DURATION + 40);
+                      }}
+                    >
+                      ×
+                    </text>
+                  )}
+                </g>
               </g>
-            </g>
-          );
-        })}
+            );
+          })}
+        </g>
 
         {/* ── Time axis line ────────────────────────────────────────────────── */}
         <line
@@ -404,7 +684,7 @@ export default function TimelineChart({
         {/* ── Tick marks and year labels ────────────────────────────────────── */}
         {ticks.map((tick, i) => {
           const tx = xs(tick);
-          const label = tick < 0 ? `${Math.abs(tick)} bc` : String(tick);
+          const label = formatDate(tick);
           const tickDelay = tickDelayMapRef.current.get(tick) ?? i * TICK_STAGGER;
 
           return (
@@ -442,6 +722,34 @@ export default function TimelineChart({
           );
         })}
       </svg>
+
+      {/* ── Reset view — only while zoomed or panned ─────────────────────── */}
+      <button
+        onClick={() => setView(null)}
+        aria-label="Reset view"
+        style={{
+          position: "fixed",
+          bottom: "1.25rem",
+          right: "1.25rem",
+          zIndex: 10,
+          background: "none",
+          border: "none",
+          borderBottom: "1px solid var(--border)",
+          fontFamily: "var(--font-mono)",
+          fontSize: "0.6875rem",
+          color: "var(--fg-muted)",
+          letterSpacing: "0.08em",
+          padding: "0 0 0.2rem",
+          cursor: "pointer",
+          opacity: view ? 0.7 : 0,
+          pointerEvents: view ? "auto" : "none",
+          transition: "opacity 0.3s ease, color 0.2s ease",
+        }}
+        onMouseEnter={(e) => { e.currentTarget.style.color = "var(--accent)"; }}
+        onMouseLeave={(e) => { e.currentTarget.style.color = "var(--fg-muted)"; }}
+      >
+        reset view
+      </button>
     </div>
   );
 }
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+// How long the toast lingers before fading on its own
+const TOAST_DURATION = 5000; // ms
+
+interface UndoToastProps {
+  message: string;
+  id: number; // bump to restart the timer for a new action
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoToast({ message, id, onUndo, onDismiss }: UndoToastProps) {
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    setVisible(false);
+    const raf = requestAnimationFrame(() => setVisible(true));
+    let fadeTimer: ReturnType<typeof setTimeout> | undefined;
+    const t = setTimeout(() => {
+      setVisible(false);
+      fadeTimer = setTimeout(onDismiss, 300);
+    }, TOAST_DURATION);
+    return () => {
+      cancelAnimationFrame(raf);
+      clearTimeout(t);
+      clearTimeout(fadeTimer);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  return (
+    <div
+      role="status"
+      style={{
+        position: "fixed",
+        bottom: "1.25rem",
+        left: "50%",
+        transform: `translateX(-50%) translateY(${visible ? 0 : 6}px)`,
+        zIndex: 110,
+        display: "flex",
+        alignItems: "baseline",
+        gap: "1.25rem",
+        padding: "0.625rem 1.125rem",
+        backgroundColor: "var(--bg)",
+        border: "1px solid var(--border)",
+        opacity: visible ? 1 : 0,
+        transition: "opacity 0.3s var(--ease-physical), transform 0.3s var(--ease-physical)",
+      }}
+    >
+      <span
+        style={{
+          fontFamily: "var(--font-display)",
+          fontSize: "1rem",
+          fontStyle: "italic",
+          color: "var(--fg-muted)",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {message}
+      </span>
+      <button
+        onClick={onUndo}
+        style={{
+          background: "none",
+          border: "none",
+          borderBottom: "1px solid var(--accent)",
+          fontFamily: "var(--font-mono)",
+          fontSize: "0.575rem",
+          letterSpacing: "0.2em",
+          textTransform: "uppercase",
+          color: "var(--fg)",
+          padding: "0 0 0.15rem",
+          cursor: "pointer",
+        }}
+      >
+        Undo
+      </button>
+    </div>
+  );
+}
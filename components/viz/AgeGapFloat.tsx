@@ -3,7 +3,8 @@
 import { useEffect, useRef } from "react";
 import { gsap } from "gsap";
 import { PersonData, TimelineData } from "@/types/timeline";
-import { getYearRange, getTickInterval, getTicks } from "@/lib/chartUtils";
+import { getYearRange, getTickInterval, getTicks, personKey } from "@/lib/chartUtils";
+import { formatDate } from "@/lib/dates";
 
 const CURRENT_YEAR = 2026;
 
@@ -77,7 +78,7 @@ export default function AgeGapFloat({ person, barColor, allData }: Props) {
   const axisY = TOP_PAD + allData.length * ROW_H;
 
   // ── Selected person's row and bar geometry ────────────────────────────────
-  const selectedRowIdx = sorted.findIndex(p => p.name === person.name);
+  const selectedRowIdx = sorted.findIndex(p => personKey(p) === personKey(person));
   const selRowTop      = TOP_PAD + selectedRowIdx * ROW_H;
   const selBx = xs(person.birth_year);
   const selEx = xs(person.death_year ?? CURRENT_YEAR);
@@ -94,7 +95,7 @@ export default function AgeGapFloat({ person, barColor, allData }: Props) {
   // ── Annotation: lifespan rank ─────────────────────────────────────────────
   const lifespanOf = (p: PersonData) => (p.death_year ?? CURRENT_YEAR) - p.birth_year;
   const byLifespan = [...allData].sort((a, b) => lifespanOf(b) - lifespanOf(a));
-  const rank       = byLifespan.findIndex(p => p.name === person.name) + 1;
+  const rank       = byLifespan.findIndex(p => personKey(p) === personKey(person)) + 1;
   const annotation =
     allData.length === 1 ? "only one in this chart"
     : rank === 1         ? "longest-lived in this chart"
@@ -170,7 +171,7 @@ export default function AgeGapFloat({ person, barColor, allData }: Props) {
 
         {/* ── Other people's bars ─────────────────────────────────────────── */}
         {sorted.map((p, i) => {
-          if (p.name === person.name) return null;
+          if (personKey(p) === personKey(person)) return null;
           const bx    = xs(p.birth_year);
           const ex    = xs(p.death_year ?? CURRENT_YEAR);
           const bw    = Math.max(1.5, ex - bx);
@@ -178,7 +179,7 @@ export default function AgeGapFloat({ person, barColor, allData }: Props) {
           const color = catColor.get(p.category) ?? CAT_COLORS[0];
 
           return (
-            <g key={p.name} className="agf-bar">
+            <g key={personKey(p)} className="agf-bar">
               <rect
                 x={bx} y={by} width={bw} height={BAR_H}
                 fill={color} opacity={0.28} rx={1}
@@ -224,7 +225,7 @@ export default function AgeGapFloat({ person, barColor, allData }: Props) {
           />
           {ticks.map(tick => {
             const tx    = xs(tick);
-            const label = tick < 0 ? `${Math.abs(tick)} bc` : String(tick);
+            const label = formatDate(tick);
             return (
               <g key={tick}>
                 <line
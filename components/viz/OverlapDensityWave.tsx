@@ -4,6 +4,7 @@ import { useEffect, useRef, useId } from "react";
 import { gsap } from "gsap";
 import { PersonData, TimelineData } from "@/types/timeline";
 import { getYearRange, getTickInterval, getTicks } from "@/lib/chartUtils";
+import { formatDate } from "@/lib/dates";
 
 const CURRENT_YEAR = 2026;
 
@@ -240,7 +241,7 @@ export default function OverlapDensityWave({ person, barColor, allData }: Props)
           />
           {ticks.map(tick => {
             const tx    = xs(tick);
-            const label = tick < 0 ? `${Math.abs(tick)} bc` : String(tick);
+            const label = formatDate(tick);
             return (
               <g key={tick}>
                 <line
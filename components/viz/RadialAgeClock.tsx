@@ -3,6 +3,8 @@
 import { useEffect, useRef, useState } from "react";
 import { gsap } from "gsap";
 import { PersonData, TimelineData } from "@/types/timeline";
+import { ageAt } from "@/lib/dates";
+import { personKey } from "@/lib/chartUtils";
 
 const CURRENT_YEAR = 2026;
 
@@ -96,7 +98,7 @@ export default function RadialAgeClock({ person, barColor, allData }: Props) {
   // similar the age gaps are.  Older → outer, younger → inner; the relative
   // ordering is always preserved even if the proportional spacing isn't.
 
-  const others = allData.filter(p => p.name !== person.name);
+  const others = allData.filter(p => personKey(p) !== personKey(person));
 
   // 1. Filter to only people who actually overlapped, then sort youngest→oldest
   const overlapping = others
@@ -138,7 +140,7 @@ export default function RadialAgeClock({ person, barColor, allData }: Props) {
     const endDeg       = yearToDeg(overlapEnd);
 
     return {
-      key:          p.name,
+      key:          personKey(p),
       p,
       color:        catColor.get(p.category) ?? CAT_COLORS[0],
       r,
@@ -162,16 +164,21 @@ export default function RadialAgeClock({ person, barColor, allData }: Props) {
 
   function infoStat1(arc: ArcEntry): string {
     const other  = arc.p.name.split(" ")[0];
-    const gapAbs = Math.abs(arc.ageGap);
-    if (arc.ageGap > 0) return `${other} was ${gapAbs} when ${firstName} was born`;
-    if (arc.ageGap < 0) return `${firstName} was ${gapAbs} when ${other} was born`;
+    if (arc.ageGap > 0) {
+      const age = ageAt(arc.p, person.birth_year, person.birth_month, person.birth_day);
+      return `${other} was ${age} when ${firstName} was born`;
+    }
+    if (arc.ageGap < 0) {
+      const age = ageAt(person, arc.p.birth_year, arc.p.birth_month, arc.p.birth_day);
+      return `${firstName} was ${age} when ${other} was born`;
+    }
     return `${other} was born the same year as ${firstName}`;
   }
 
   function infoStat2(arc: ArcEntry): string {
     const other = arc.p.name.split(" ")[0];
     if (arc.diedDuring) {
-      const selAge = arc.p.death_year! - person.birth_year;
+      const selAge = ageAt(person, arc.p.death_year!, arc.p.death_month, arc.p.death_day);
       return `${other} died when ${firstName} was ${selAge}`;
     }
     if (arc.p.death_year === null) return `${other} is still alive today`;
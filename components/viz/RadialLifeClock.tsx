@@ -3,6 +3,7 @@
 import { useEffect, useRef } from "react";
 import { gsap } from "gsap";
 import { PersonData } from "@/types/timeline";
+import { birthPoint, endPoint, formatDate, lifespanYears } from "@/lib/dates";
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 const CURRENT_YEAR = 2026;
@@ -13,10 +14,6 @@ const CY           = SIZE / 2;
 const R            = 76;    // arc radius
 const CIRCUMFERENCE = 2 * Math.PI * R; // ≈ 477.5
 
-function formatYear(y: number): string {
-  return y < 0 ? `${Math.abs(y)} BCE` : String(y);
-}
-
 // ── Component ─────────────────────────────────────────────────────────────────
 interface Props {
   person:   PersonData;
@@ -28,13 +25,13 @@ export default function RadialLifeClock({ person, barColor }: Props) {
   const countRef = useRef<HTMLSpanElement>(null);
 
   const isAlive   = person.death_year === null;
-  const deathYear = isAlive ? CURRENT_YEAR : person.death_year!;
-  const lifespan  = deathYear - person.birth_year;
-  const fraction  = Math.min(lifespan / MAX_LIFE, 1);
+  // Completed years for the count; the arc uses the exact span when dates are known
+  const lifespan  = lifespanYears(person, CURRENT_YEAR);
+  const fraction  = Math.min((endPoint(person, CURRENT_YEAR) - birthPoint(person)) / MAX_LIFE, 1);
   const targetOffset = CIRCUMFERENCE * (1 - fraction);
 
-  const birthStr = formatYear(person.birth_year);
-  const deathStr = isAlive ? "present" : formatYear(person.death_year!);
+  const birthStr = formatDate(person.birth_year, person.birth_month, person.birth_day);
+  const deathStr = isAlive ? "present" : formatDate(person.death_year!, person.death_month, person.death_day);
 
   // ── GSAP entrance animation ───────────────────────────────────────────────
   useEffect(() => {
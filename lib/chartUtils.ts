@@ -1,8 +1,45 @@
-import { TimelineData, PersonData } from "@/types/timeline";
+import { TimelineData, PersonData, SortKey } from "@/types/timeline";
+import { birthPoint, endPoint, formatDate } from "@/lib/dates";
+
+// Desaturated ink tones — mirrors --cat-0..7 in globals.css
+export const CAT_COLORS = [
+  "#7a6e5f", "#5f6e6a", "#6e5f7a", "#7a6a5f",
+  "#5f7a6e", "#6a6e5f", "#7a5f6a", "#5f6a7a",
+];
+
+/**
+ * Row identity on a chart. Namesakes — the two John Adamses — keep their real
+ * names, so the birth year tells them apart; the same person twice is merged.
+ */
+export function personKey(p: PersonData): string {
+  return `${p.name}|${p.birth_year}`;
+}
+
+/** The name as the chart shows it: namesakes get their birth year appended. */
+export function displayName(p: PersonData, data: TimelineData): string {
+  const namesake = data.some((other) => other.name === p.name && other.birth_year !== p.birth_year);
+  return namesake ? `${p.name} (${formatDate(p.birth_year)})` : p.name;
+}
+
+/**
+ * Assign each category a color in first-appearance order, so colors
+ * match across layouts and on printed pages.
+ */
+export function categoryColors(data: TimelineData): Map<string, string> {
+  const catColor = new Map<string, string>();
+  let ci = 0;
+  for (const p of data) {
+    if (!catColor.has(p.category)) {
+      catColor.set(p.category, CAT_COLORS[ci % CAT_COLORS.length]);
+      ci++;
+    }
+  }
+  return catColor;
+}
 
 /**
  * Group people by category, preserving first-appearance order.
- * Within each group, people are sorted by birth year.
+ * Within each group, people are sorted by birth date.
  */
 export function groupByCategory(data: TimelineData): Map<string, PersonData[]> {
   const map = new Map<string, PersonData[]>();
@@ -15,11 +52,40 @@ export function groupByCategory(data: TimelineData): Map<string, PersonData[]> {
     }
   }
   for (const people of map.values()) {
-    people.sort((a, b) => a.birth_year - b.birth_year);
+    people.sort((a, b) => birthPoint(a) - birthPoint(b));
   }
   return map;
 }
 
+/**
+ * Return a sorted copy of people. Ties fall back to birth date, then to the
+ * order people were added. Living people count as ending in `currentYear`;
+ * lifespan sorts longest first.
+ */
+export function sortPeople(
+  people: PersonData[],
+  key: SortKey,
+  currentYear = 2026
+): PersonData[] {
+  const end = (p: PersonData) => endPoint(p, currentYear);
+  const compare: Record<SortKey, (a: PersonData, b: PersonData) => number> = {
+    birth:    () => 0,
+    death:    (a, b) => end(a) - end(b),
+    lifespan: (a, b) => (end(b) - birthPoint(b)) - (end(a) - birthPoint(a)),
+    name:     (a, b) => a.name.localeCompare(b.name),
+    category: (a, b) => a.category.localeCompare(b.category),
+    added:    () => 0,
+  };
+  const byKey = compare[key];
+  const indexed = people.map((person, i) => ({ person, i }));
+  indexed.sort((a, b) =>
+    byKey(a.person, b.person) ||
+    (key === "added" ? 0 : birthPoint(a.person) - birthPoint(b.person)) ||
+    a.i - b.i
+  );
+  return indexed.map(({ person }) => person);
+}
+
 /**
  * Compute a padded [minYear, maxYear] range across all people.
  * Padding is 4% of the raw range, minimum 5 years.
@@ -28,12 +94,10 @@ export function getYearRange(
   data: TimelineData,
   currentYear = 2026
 ): [number, number] {
-  const years = data.flatMap((p) => [
-    p.birth_year,
-    p.death_year ?? currentYear,
-  ]);
-  const rawMin = Math.min(...years);
-  const rawMax = Math.max(...years);
+  const years = data.flatMap((p) => [birthPoint(p), endPoint(p, currentYear)]);
+  // Whole years at the edges, even when month/day put a bar mid-year
+  const rawMin = Math.floor(Math.min(...years));
+  const rawMax = Math.ceil(Math.max(...years));
   const range = rawMax - rawMin || 100;
   const pad = Math.max(5, Math.round(range * 0.04));
   return [rawMin - pad, rawMax + pad];
@@ -49,7 +113,11 @@ export function getTickInterval(range: number): number {
   if (range > 300)  return 100;
   if (range > 120)  return 50;
   if (range > 50)   return 25;
-  return 10;
+  if (range > 20)   return 10;
+  // Only reachable when zoomed in — a full chart always spans 20+ years
+  if (range > 10)   return 5;
+  if (range > 4)    return 2;
+  return 1;
 }
 
 /**
@@ -67,3 +135,59 @@ export function getTicks(
   }
   return ticks;
 }
+
+/** A visible [minYear, maxYear] window on the x axis. */
+export type YearView = [number, number];
+
+/**
+ * Keep a view inside the full range and at least `minSpan` years wide.
+ * Returns null when the view covers the whole range (i.e. not zoomed).
+ */
+export function clampView(
+  [lo, hi]: YearView,
+  [fullLo, fullHi]: YearView,
+  minSpan = 5
+): YearView | null {
+  const fullSpan = fullHi - fullLo;
+  const span = Math.max(hi - lo, Math.min(minSpan, fullSpan));
+  if (span >= fullSpan) return null;
+  const start = Math.min(Math.max(lo, fullLo), fullHi - span);
+  return [start, start + span];
+}
+
+/**
+ * Scale a view by `factor` (< 1 zooms in) around `anchor`, so the year
+ * under the cursor stays under the cursor.
+ */
+export function zoomView([lo, hi]: YearView, anchor: number, factor: number): YearView {
+  return [anchor - (anchor - lo) * factor, anchor + (hi - anchor) * factor];
+}
+
+/**
+ * Greedy interval scheduling: walk people by birth date and drop each into
+ * the first lane whose last occupant ended at least `minGap` years earlier.
+ * Living people occupy their lane up to `currentYear`.
+ */
+export function packLanes(
+  data: TimelineData,
+  minGap: number,
+  currentYear = 2026
+): { lanes: Map<string, number>; laneCount: number } {
+  const sorted = [...data].sort((a, b) => birthPoint(a) - birthPoint(b));
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+
+  for (const person of sorted) {
+    const end = endPoint(person, currentYear);
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd + minGap <= birthPoint(person));
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+    lanes.set(personKey(person), lane);
+  }
+
+  return { lanes, laneCount: laneEnds.length };
+}
@@ -0,0 +1,81 @@
+// Calendar precision for PersonData. Month and day are optional, so every
+// helper here falls back to whole years when they are missing — a bare year
+// sits at the start of that year, as it always has on the chart.
+
+import { PersonData } from "@/types/timeline";
+
+const MONTH_NAMES = [
+  "Jan", "Feb", "Mar", "Apr", "May", "Jun",
+  "Jul", "Aug", "Sep", "Oct", "Nov", "Dec",
+];
+
+// Days before each month in a common year
+const MONTH_START = [0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334];
+
+function isLeapYear(year: number): boolean {
+  // BC years are 1-based (1 BC precedes AD 1), so shift to astronomical numbering
+  const y = year < 0 ? year + 1 : year;
+  return (y % 4 === 0 && y % 100 !== 0) || y % 400 === 0;
+}
+
+/** Days in `month` (1–12) of `year`, on the proleptic Gregorian calendar. */
+export function daysInMonth(year: number, month: number): number {
+  if (month === 2) return isLeapYear(year) ? 29 : 28;
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/**
+ * A date as a fractional year for the x axis — 1 July 1900 is ≈ 1900.5.
+ * Without a month the point is the year itself; without a day, the 1st.
+ */
+export function yearPoint(year: number, month?: number, day?: number): number {
+  if (!month) return year;
+  const leap = isLeapYear(year);
+  const dayOfYear = MONTH_START[month - 1] + (leap && month > 2 ? 1 : 0) + (day ?? 1) - 1;
+  return year + dayOfYear / (leap ? 366 : 365);
+}
+
+/** Where a person's bar starts, in fractional years. */
+export function birthPoint(p: PersonData): number {
+  return yearPoint(p.birth_year, p.birth_month, p.birth_day);
+}
+
+/** Where a person's bar ends; living people run to `currentYear`. */
+export function endPoint(p: PersonData, currentYear = 2026): number {
+  return p.death_year === null ? currentYear : yearPoint(p.death_year, p.death_month, p.death_day);
+}
+
+/** Years from `from` to `to`, minding that there is no year 0 (1 BC → AD 1 is one year). */
+export function yearsBetween(from: number, to: number): number {
+  return to - from - (from < 0 && to > 0 ? 1 : 0);
+}
+
+/**
+ * Completed years of age on a date. The birthday only counts once both
+ * months are known (and both days, within the same month) — otherwise this
+ * is the plain difference in years.
+ */
+export function ageAt(p: PersonData, year: number, month?: number, day?: number): number {
+  let age = yearsBetween(p.birth_year, year);
+  if (month && p.birth_month) {
+    const beforeBirthday =
+      month < p.birth_month ||
+      (month === p.birth_month && day !== undefined && p.birth_day !== undefined && day < p.birth_day);
+    if (beforeBirthday) age--;
+  }
+  return age;
+}
+
+/** Age at death, or years since birth for the living. */
+export function lifespanYears(p: PersonData, currentYear = 2026): number {
+  return p.death_year === null
+    ? yearsBetween(p.birth_year, currentYear)
+    : ageAt(p, p.death_year, p.death_month, p.death_day);
+}
+
+/** "14 Mar 1879", "Mar 1879" or "1879"; BC years read "69 bc", as on the axis. */
+export function formatDate(year: number, month?: number, day?: number): string {
+  const y = year < 0 ? `${Math.abs(year)} bc` : String(year);
+  if (!month) return y;
+  return day ? `${day} ${MONTH_NAMES[month - 1]} ${y}` : `${MONTH_NAMES[month - 1]} ${y}`;
+}
@@ -1,21 +1,80 @@
-// Session-level cache for notable events — persists across modal open/close
-// Keyed by person name; populated once per session per person
+// Cache for notable events — persists across modal open/close and page reloads.
+// Keyed by name plus life range (see eventKey), so a corrected date refetches.
+// Backed by an in-memory Map, written through to localStorage in the browser.
+// Bounded: the least recently used lives are evicted past MAX_ENTRIES, and a
+// deleted chart's people are forgotten (see useTimelineLibrary).
+
+import { normalizeName } from "@/lib/names";
 
 export interface NotableEvent {
   year: number;
   label: string;
 }
 
-const _cache = new Map<string, NotableEvent[]>();
+const STORAGE_KEY = "tg_notable_events";
+const MAX_ENTRIES = 200;
+
+/** Cache key shared by the browser cache and the /api/events server cache. */
+export function eventKey(name: string, birthYear: number, deathYear: number | null): string {
+  return `${normalizeName(name)}|${birthYear}|${deathYear ?? "living"}`;
+}
+
+let _cache: Map<string, NotableEvent[]> | null = null;
+
+function cache(): Map<string, NotableEvent[]> {
+  if (_cache) return _cache;
+  _cache = new Map();
+  if (typeof window === "undefined") return _cache;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    // Empty lists saved by older versions would block a refetch — drop them
+    if (raw) {
+      _cache = new Map(Object.entries(JSON.parse(raw) as Record<string, NotableEvent[]>)
+        .filter(([, events]) => events.length > 0));
+    }
+  } catch {
+    // Corrupt/stale data — silently discard
+    localStorage.removeItem(STORAGE_KEY);
+  }
+  return _cache;
+}
+
+function persist(): void {
+  if (typeof window === "undefined") return;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(cache())));
+  } catch {
+    // Storage quota exceeded or private browsing — keep the in-memory copy
+  }
+}
 
 export const eventCache = {
-  get(name: string): NotableEvent[] | undefined {
-    return _cache.get(name);
+  get(key: string): NotableEvent[] | undefined {
+    const map = cache();
+    const events = map.get(key);
+    if (events) {
+      // Re-insert so Map order tracks recency; saved with the next write
+      map.delete(key);
+      map.set(key, events);
+    }
+    return events;
+  },
+  set(key: string, events: NotableEvent[]): void {
+    const map = cache();
+    map.delete(key);
+    map.set(key, events);
+    for (const oldest of map.keys()) {
+      if (map.size <= MAX_ENTRIES) break;
+      map.delete(oldest);
+    }
+    persist();
   },
-  set(name: string, events: NotableEvent[]): void {
-    _cache.set(name, events);
+  has(key: string): boolean {
+    return cache().has(key);
   },
-  has(name: string): boolean {
-    return _cache.has(name);
+  /** Drop the given keys, e.g. for the people of a deleted chart. */
+  forget(keys: string[]): void {
+    const map = cache();
+    if (keys.filter((k) => map.delete(k)).length > 0) persist();
   },
 };
@@ -0,0 +1,169 @@
+// Export the live TimelineChart SVG as a standalone file.
+// The chart is styled through CSS variables and stylesheet rules, none of
+// which travel with a bare .svg — so every element's computed style is
+// inlined into a clone, resolving theme colors to literal values. The page's
+// web fonts are embedded too, since an exported file can't reach them. The
+// live SVG already reflects the current zoom, layout and sort.
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Presentation properties worth carrying over; everything else is either
+// default or interaction-only (cursor, transitions, animations)
+const INLINED_PROPS = [
+  "fill", "fill-opacity", "stroke", "stroke-width", "stroke-opacity",
+  "stroke-dasharray", "opacity", "font-family", "font-size", "font-style",
+  "font-weight", "letter-spacing", "text-transform", "dominant-baseline",
+  "text-anchor", "visibility",
+];
+
+function inlineStyles(source: Element, target: Element, families: Set<string>): void {
+  const computed = getComputedStyle(source);
+  for (const family of computed.getPropertyValue("font-family").split(",")) {
+    families.add(unquote(family));
+  }
+  const declarations = INLINED_PROPS
+    .map((prop) => [prop, computed.getPropertyValue(prop)] as const)
+    .filter(([, value]) => value !== "")
+    .map(([prop, value]) => `${prop}:${value}`);
+
+  // CSS translateY on bar groups becomes a plain SVG transform
+  const transform = computed.getPropertyValue("transform");
+  if (transform && transform !== "none") target.setAttribute("transform", transform);
+
+  target.setAttribute("style", declarations.join(";"));
+  target.removeAttribute("class");
+
+  // children line up 1:1 between the live tree and its clone
+  for (let i = 0; i < source.children.length; i++) {
+    inlineStyles(source.children[i], target.children[i], families);
+  }
+}
+
+function unquote(family: string): string {
+  return family.trim().replace(/^["']|["']$/g, "");
+}
+
+function toDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// next/font registers its faces under hashed family names that exist only on
+// this page, and an SVG drawn through <img> can't load outside files — so the
+// @font-face rules for the chart's families go into the export with their
+// files inlined. Only the Latin subsets, which cover the chart's labels.
+async function embeddedFontFaces(families: Set<string>): Promise<string> {
+  const faces: { rule: CSSFontFaceRule; base: string }[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      continue; // cross-origin stylesheet
+    }
+    for (const rule of Array.from(rules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      if (!families.has(unquote(rule.style.getPropertyValue("font-family")))) continue;
+      const range = rule.style.getPropertyValue("unicode-range");
+      if (range && !/U\+0+-/i.test(range)) continue;
+      faces.push({ rule, base: sheet.href ?? document.baseURI });
+    }
+  }
+
+  const css = await Promise.all(faces.map(async ({ rule, base }) => {
+    let text = rule.cssText;
+    for (const [match, url] of Array.from(text.matchAll(/url\(["']?([^"')]+)["']?\)/g))) {
+      if (url.startsWith("data:")) continue;
+      try {
+        const res = await fetch(new URL(url, base));
+        if (res.ok) text = text.replace(match, `url("${await toDataUrl(await res.blob())}")`);
+      } catch {
+        // Unreachable file — the export falls back to the stack's generic font
+      }
+    }
+    return text;
+  }));
+  return css.join("\n");
+}
+
+/** Serialize the chart to a self-contained SVG document string, fonts included. */
+export async function serializeChart(svg: SVGSVGElement): Promise<string> {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const families = new Set<string>();
+  inlineStyles(svg, clone, families);
+
+  const fontCss = await embeddedFontFaces(families);
+  if (fontCss) {
+    const style = document.createElementNS(SVG_NS, "style");
+    style.textContent = fontCss;
+    clone.insertBefore(style, clone.firstChild);
+  }
+
+  // Interaction-only elements don't belong in a static export
+  clone.querySelectorAll("[data-export='skip']").forEach((el) => el.remove());
+
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(Math.round(width)));
+  clone.setAttribute("height", String(Math.round(height)));
+  clone.setAttribute("viewBox", `0 0 ${Math.round(width)} ${Math.round(height)}`);
+
+  // Paper background — the page color lives on <body>, not the SVG
+  const bg = document.createElementNS(SVG_NS, "rect");
+  bg.setAttribute("width", "100%");
+  bg.setAttribute("height", "100%");
+  bg.setAttribute("fill", getComputedStyle(document.body).backgroundColor);
+  clone.insertBefore(bg, clone.firstChild);
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/** Rasterize the serialized chart at `scale` × its on-screen size. */
+export async function rasterizeChart(svg: SVGSVGElement, scale: number): Promise<Blob> {
+  const markup = await serializeChart(svg);
+  const { width, height } = svg.getBoundingClientRect();
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(img, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not render chart image"));
+    };
+    img.src = url;
+  });
+}
+
+/** Trigger a browser download for a blob. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** "lifelines-2026-10-19" — date-stamped base name for exported files. */
+export function exportBaseName(): string {
+  return `lifelines-${new Date().toISOString().slice(0, 10)}`;
+}
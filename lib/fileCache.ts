@@ -0,0 +1,83 @@
+// Generic JSON-file-backed key/value cache with a TTL — server-side only.
+// Loaded lazily on first access; every write rewrites the file atomically,
+// leaving out entries past their TTL.
+
+import { promises as fs } from "fs";
+import path from "path";
+
+interface CacheEntry<T> {
+  value: T;
+  cachedAt: number; // epoch ms
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Parse a "<N> days" env var into milliseconds, falling back on bad input. */
+export function ttlFromEnv(raw: string | undefined, defaultDays: number): number {
+  const days = Number(raw ?? defaultDays);
+  return (Number.isFinite(days) ? days : defaultDays) * DAY_MS;
+}
+
+export function createFileCache<T>(file: string, ttlMs: number) {
+  // The load promise, not the Map, is memoized — requests that arrive before
+  // the first read finishes share one Map instead of each making their own
+  let _loading: Promise<Map<string, CacheEntry<T>>> | null = null;
+  // Writes are chained so concurrent requests never interleave on disk
+  let _writeQueue: Promise<void> = Promise.resolve();
+
+  function load(): Promise<Map<string, CacheEntry<T>>> {
+    _loading ??= fs.readFile(file, "utf8")
+      .then((raw) => new Map(Object.entries(JSON.parse(raw) as Record<string, CacheEntry<T>>)))
+      // Missing or corrupt file — start empty, it is rewritten on next save
+      .catch(() => new Map<string, CacheEntry<T>>());
+    return _loading;
+  }
+
+  function persist(entries: Map<string, CacheEntry<T>>): Promise<void> {
+    // Expired entries are never read again — drop them so the file stays bounded
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (now - entry.cachedAt >= ttlMs) entries.delete(key);
+    }
+    _writeQueue = _writeQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(entries)));
+        await fs.rename(tmp, file);
+      })
+      .catch((err) => console.error(`Failed to write cache ${file}:`, err));
+    return _writeQueue;
+  }
+
+  return {
+    async get(key: string): Promise<T | undefined> {
+      if (ttlMs <= 0) return undefined;
+      const entry = (await load()).get(key);
+      if (!entry || Date.now() - entry.cachedAt >= ttlMs) return undefined;
+      return entry.value;
+    },
+
+    async setMany(items: [key: string, value: T][]): Promise<void> {
+      if (ttlMs <= 0 || items.length === 0) return;
+      const entries = await load();
+      const now = Date.now();
+      for (const [key, value] of items) entries.set(key, { value, cachedAt: now });
+      await persist(entries);
+    },
+
+    /** Remove the given keys, or everything when omitted. Returns entries removed. */
+    async purge(keys?: string[]): Promise<number> {
+      const entries = await load();
+      let removed: number;
+      if (keys) {
+        removed = keys.filter((k) => entries.delete(k)).length;
+      } else {
+        removed = entries.size;
+        entries.clear();
+      }
+      await persist(entries);
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { LLMProvider } from "./types";
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  envKey: "ANTHROPIC_API_KEY",
+  defaultModels: {
+    resolve: "claude-sonnet-4-6", // paid
+    events : "claude-sonnet-4-6",
+  },
+
+  async complete(apiKey, model, { system, user, maxTokens }) {
+    const client = new Anthropic({ apiKey });
+    const message = await client.messages.create({
+      model,
+      max_tokens: maxTokens,
+      system,
+      messages: [{ role: "user", content: user }],
+    });
+    return message.content
+      .filter((block) => block.type === "text")
+      .map((block) => (block as { type: "text"; text: string }).text)
+      .join("");
+  },
+};
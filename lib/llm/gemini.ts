@@ -0,0 +1,23 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { LLMProvider } from "./types";
+
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+  label: "Gemini",
+  envKey: "GEMINI_API_KEY",
+  defaultModels: {
+    resolve: "gemini-2.0-flash", // free tier, 1500 req/day when available
+    events : "gemini-2.0-flash",
+  },
+
+  async complete(apiKey, model, { system, user, maxTokens }) {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const generative = genAI.getGenerativeModel({
+      model,
+      systemInstruction: system,
+      generationConfig: { maxOutputTokens: maxTokens },
+    });
+    const result = await generative.generateContent(user);
+    return result.response.text();
+  },
+};
@@ -0,0 +1,187 @@
+// Provider registry — the single place API routes go to talk to a model.
+//
+// To add a backend, implement LLMProvider in its own file and list it in
+// PROVIDERS below. Configuration is entirely env-driven (.env.local):
+//   OPENROUTER_API_KEY / GEMINI_API_KEY / ANTHROPIC_API_KEY  → enables a provider
+//   LLM_PROVIDER_ORDER=gemini,anthropic                      → priority (default: registry order)
+//   <PROVIDER>_MODEL_<ROUTE>, e.g. ANTHROPIC_MODEL_EVENTS    → per-route model override
+//   LLM_MOCK=1 (or true)                                     → offline fixtures only (see mock.ts)
+
+import { parseJsonArray, repairMessage } from "@/lib/validation";
+import { anthropicProvider } from "./anthropic";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+import { openRouterProvider } from "./openrouter";
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  LLMRoute,
+  ProviderError,
+  ProviderId,
+} from "./types";
+
+export type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  LLMRoute,
+  ProviderError,
+  ProviderId,
+} from "./types";
+
+// Default priority order: OpenRouter → Gemini → Anthropic
+const PROVIDERS: LLMProvider[] = [
+  openRouterProvider,
+  geminiProvider,
+  anthropicProvider,
+];
+
+function priorityOrder(): LLMProvider[] {
+  const raw = process.env.LLM_PROVIDER_ORDER;
+  if (!raw) return PROVIDERS;
+
+  const ids = raw.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const ordered = ids
+    .map((id) => PROVIDERS.find((p) => p.id === id))
+    .filter((p): p is LLMProvider => p !== undefined);
+  // Providers missing from the list keep registry order, after the listed ones
+  return [...ordered, ...PROVIDERS.filter((p) => !ordered.includes(p))];
+}
+
+/** Providers that have an API key set, in priority order. */
+export function getConfiguredProviders(): LLMProvider[] {
+  // Mock mode is exclusive — never fall through to a live provider
+  if (/^(1|true|yes)$/i.test(process.env[mockProvider.envKey]?.trim() ?? "")) return [mockProvider];
+  return priorityOrder().filter((p) => !!process.env[p.envKey]);
+}
+
+/** Env var names that would enable a provider — used in "no key" error messages. */
+export function providerEnvKeys(): string[] {
+  return PROVIDERS.map((p) => p.envKey);
+}
+
+/** Model for a provider on a given route, honouring <PROVIDER>_MODEL_<ROUTE>. */
+export function modelFor(provider: LLMProvider, route: LLMRoute): string {
+  const override = process.env[`${provider.id.toUpperCase()}_MODEL_${route.toUpperCase()}`];
+  return override || provider.defaultModels[route];
+}
+
+// Backoff before each fallback attempt: 400ms, 800ms, 1600ms, …
+const BACKOFF_BASE_MS = 400;
+
+/** 429, 5xx and network failures (no status) are worth trying elsewhere. */
+export function isRetryable(err: ProviderError): boolean {
+  if (err.status === undefined) return true;
+  return err.status === 429 || err.status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Send a completion to the configured providers in priority order.
+ * On a retryable error the next provider is tried after an exponential
+ * backoff; non-retryable errors (bad key, bad request) propagate at once.
+ * When every provider fails, the last error is rethrown with `status`.
+ */
+export async function complete(
+  route: LLMRoute,
+  req: CompletionRequest
+): Promise<CompletionResult> {
+  const providers = getConfiguredProviders();
+  if (providers.length === 0) {
+    throw Object.assign(new Error("No API key configured."), { status: 500 });
+  }
+
+  let lastError: ProviderError | undefined;
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i];
+    if (i > 0) await sleep(BACKOFF_BASE_MS * 2 ** (i - 1));
+
+    const model = modelFor(provider, route);
+    try {
+      const text = await provider.complete(process.env[provider.envKey]!, model, req, route);
+      return { text, provider: provider.id, model };
+    } catch (err) {
+      const error = err as ProviderError;
+      console.error(`${provider.label} API error (${route}):`, error);
+      if (!isRetryable(error)) throw error;
+      lastError = error;
+    }
+  }
+
+  throw lastError!;
+}
+
+// Cap on problems listed in a repair prompt — enough to be specific, short enough to stay cheap
+const MAX_REPAIR_ISSUES = 20;
+
+export interface JsonArrayResult {
+  entries: unknown[];
+  provider: ProviderId;
+}
+
+/**
+ * Complete, then extract a JSON array from the reply. If parsing fails or
+ * `findIssues` reports problems, the model gets one repair round-trip with
+ * the list of issues, and the repair is checked the same way. When it is
+ * still flawed, whichever reply has fewer issues is returned; the caller
+ * validates each entry. If the repair call itself fails, a parsable first
+ * reply is still returned. Provider errors propagate only when nothing
+ * parsed; throws with status 502 when neither reply holds a parsable array.
+ */
+export async function completeJsonArray(
+  route: LLMRoute,
+  req: CompletionRequest,
+  findIssues: (entries: unknown[]) => string[]
+): Promise<JsonArrayResult> {
+  const first = await complete(route, req);
+  const checked = check(first.text, findIssues);
+  if (checked.entries && checked.issues.length === 0) {
+    return { entries: checked.entries, provider: first.provider };
+  }
+
+  console.warn(`Repairing ${route} response from ${first.provider}:`, checked.issues);
+  let second: CompletionResult;
+  try {
+    second = await complete(route, {
+      ...req,
+      user: repairMessage(req.user, first.text, checked.issues.slice(0, MAX_REPAIR_ISSUES)),
+    });
+  } catch (err) {
+    // The valid entries of the first reply are still worth keeping
+    if (!checked.entries) throw err;
+    console.warn(`Repair of ${route} response failed; keeping the first reply:`, checked.issues);
+    return { entries: checked.entries, provider: first.provider };
+  }
+  const repair = check(second.text, findIssues);
+
+  if (repair.entries && (!checked.entries || repair.issues.length <= checked.issues.length)) {
+    if (repair.issues.length > 0) {
+      console.warn(`Repaired ${route} response from ${second.provider} still has issues:`, repair.issues);
+    }
+    return { entries: repair.entries, provider: second.provider };
+  }
+  if (checked.entries) {
+    // The repair made things worse — fall back to the first reply
+    console.warn(`Repair of ${route} response had more issues; keeping the first reply:`, checked.issues);
+    return { entries: checked.entries, provider: first.provider };
+  }
+  console.error(`Failed to parse ${route} response:`, first.text, second.text);
+  throw Object.assign(new Error("Failed to parse AI response. Try again."), { status: 502 });
+}
+
+// Parse a reply and list its problems; `entries` is null when no array parses
+function check(
+  text: string,
+  findIssues: (entries: unknown[]) => string[]
+): { entries: unknown[] | null; issues: string[] } {
+  try {
+    const entries = parseJsonArray(text);
+    return { entries, issues: findIssues(entries) };
+  } catch (err) {
+    return { entries: null, issues: [(err as Error).message] };
+  }
+}
@@ -0,0 +1,72 @@
+// Offline stand-in provider — answers from bundled fixtures, never the network.
+// Enable with LLM_MOCK=1 in .env.local; while set it replaces every live provider.
+//
+// The mock reads the same user messages the routes send to real models, so
+// it is coupled to their wording: "1. Name" lines (with an optional
+// " — hint: …") for /api/resolve and "Person: … from A to B." for /api/events.
+
+import { normalizeName } from "@/lib/names";
+import { LLMProvider } from "./types";
+import peopleFixture from "./fixtures/people.json";
+import eventsFixture from "./fixtures/events.json";
+import ambiguousFixture from "./fixtures/ambiguous.json";
+
+const MAX_EVENTS = 12;
+
+function resolvePeople(userMessage: string): string {
+  const byName = new Map(peopleFixture.map((p) => [normalizeName(p.name), p]));
+  const requested = userMessage
+    .split("\n")
+    .map((line) => line.match(/^\d+\.\s+(.+?)(?: — hint: (.+))?$/))
+    .filter((m): m is RegExpMatchArray => !!m)
+    .map(([, query, hint]) => ({ query, hint }));
+
+  const ambiguous: Record<string, { category: string; description: string }[]> = ambiguousFixture;
+
+  // One entry per input, echoing the query — ambiguous names list candidates,
+  // unknown names are refused with a reason, exactly as the live prompt instructs.
+  // A hint picks the candidate whose category or description mentions one of its words.
+  const entries = requested.map(({ query, hint }) => {
+    const candidates = ambiguous[normalizeName(query)];
+    const words = hint?.toLowerCase().match(/[a-z]{4,}/g) ?? [];
+    const hinted = candidates?.find((c) =>
+      words.some((w) => `${c.category} ${c.description}`.toLowerCase().includes(w))
+    );
+    if (hinted) return { query, ...hinted };
+    if (candidates) return { query, candidates };
+    const person = byName.get(normalizeName(query));
+    return person ? { query, ...person } : { query, unresolved: "not in offline fixture" };
+  });
+  return JSON.stringify(entries);
+}
+
+function notableEvents(userMessage: string): string {
+  const range = userMessage.match(/from (-?\d+) to (-?\d+)/);
+  if (!range) return "[]";
+  const from = Number(range[1]);
+  const to   = Number(range[2]);
+
+  const inRange = eventsFixture.filter((e) => e.year >= from && e.year <= to);
+  if (inRange.length <= MAX_EVENTS) return JSON.stringify(inRange);
+
+  // Evenly sample so events spread across the span instead of clustering
+  const step = (inRange.length - 1) / (MAX_EVENTS - 1);
+  const picked = Array.from({ length: MAX_EVENTS }, (_, i) => inRange[Math.round(i * step)]);
+  return JSON.stringify(picked);
+}
+
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  label: "Mock",
+  envKey: "LLM_MOCK",
+  defaultModels: {
+    resolve: "fixture/people",
+    events : "fixture/events",
+  },
+
+  // Dispatch on the route, not the model — a <ROUTE> model override must not
+  // send events requests to the people fixture
+  async complete(_apiKey, _model, { user }, route) {
+    return route === "events" ? notableEvents(user) : resolvePeople(user);
+  },
+};
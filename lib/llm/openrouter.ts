@@ -0,0 +1,40 @@
+import { LLMProvider } from "./types";
+
+export const openRouterProvider: LLMProvider = {
+  id: "openrouter",
+  label: "OpenRouter",
+  envKey: "OPENROUTER_API_KEY",
+  defaultModels: {
+    resolve: "openrouter/free", // any available free model
+    events : "openrouter/free",
+  },
+
+  async complete(apiKey, model, { system, user, maxTokens }) {
+    const res = await fetch("https://openrouter.ai/api/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+        "HTTP-Referer": "https://timeline-generator.app",
+        "X-Title": "Lifelines",
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens,
+        messages: [
+          { role: "system", content: system },
+          { role: "user",   content: user },
+        ],
+      }),
+    });
+
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      const msg = err?.error?.message ?? `OpenRouter error ${res.status}`;
+      throw Object.assign(new Error(msg), { status: res.status });
+    }
+
+    const json = await res.json();
+    return json.choices[0].message.content as string;
+  },
+};
@@ -0,0 +1,30 @@
+// Shared shapes for the LLM provider layer — every backend implements LLMProvider
+
+export type ProviderId = "openrouter" | "gemini" | "anthropic" | "mock";
+
+// Each API route that talks to a model — used to pick a per-route model
+export type LLMRoute = "resolve" | "events";
+
+export interface CompletionRequest {
+  system: string;
+  user: string;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;                         // human-readable, used in logs + responses
+  envKey: string;                        // env var holding the API key
+  defaultModels: Record<LLMRoute, string>;
+  // `route` is informational for live backends; the offline mock answers by it
+  complete(apiKey: string, model: string, req: CompletionRequest, route: LLMRoute): Promise<string>;
+}
+
+export interface CompletionResult {
+  text: string;
+  provider: ProviderId;
+  model: string;
+}
+
+// Errors thrown by providers carry the upstream HTTP status when known
+export type ProviderError = Error & { status?: number };
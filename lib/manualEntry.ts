@@ -0,0 +1,55 @@
+// Structured InputBar syntax for people the model can't know — family
+// members, local figures. "Jane Doe, 1820–1891, Writers" becomes a PersonData
+// directly, with no call to /api/resolve.
+//
+//   Name, born–died[, Category[, description…]]
+//
+// Either year takes an optional "c.", "ca." or "~" (approximate) and a
+// "BC"/"BCE" suffix; an open end ("1950–" or "1950–present") means living.
+// Category defaults to Other.
+
+import { PersonData } from "@/types/timeline";
+import { personIssues, toPerson } from "@/lib/validation";
+
+export type ManualEntryResult =
+  | { person: PersonData }
+  | { issues: string[] };
+
+const YEAR_RANGE = /^(c\.|ca\.|~)?\s*(\d+)\s*(bce?)?\s*[-–—]\s*(?:(c\.|ca\.|~)?\s*(\d+)\s*(bce?)?|present|living)?\s*$/i;
+
+/**
+ * Parse a structured entry. Returns null when the text isn't one — a plain
+ * name, to be resolved as usual — and issues when it is one but invalid.
+ */
+export function parseManualEntry(text: string): ManualEntryResult | null {
+  const parts = text.split(",").map((p) => p.trim());
+  if (parts.length < 2) return null;
+
+  const match = parts[1].match(YEAR_RANGE);
+  if (!match) {
+    // "Name, 18xx…" reads as an attempted entry; anything else is just a name with a comma
+    return /^(c\.|ca\.|~)?\s*\d/i.test(parts[1])
+      ? { issues: ["years should look like 1820–1891, c. 1820–1891, 1950–present or 100 BC–44 BC"] }
+      : null;
+  }
+
+  // "c." may sit on either year ("1820–c. 1891"); either marks the entry approximate
+  const [, approxStart, startText, startEra, approxEnd, endText, endEra] = match;
+  // "100–44 BC" — an era on the end alone applies to both years
+  const startBc = !!startEra || (!!endEra && !startEra);
+  const birth = Number(startText) * (startBc ? -1 : 1);
+  const death = endText === undefined ? null : Number(endText) * (endEra ? -1 : 1);
+
+  const [name, , category = "Other", ...rest] = parts;
+  const raw = {
+    name,
+    birth_year: birth,
+    death_year: death,
+    category,
+    approximate: !!(approxStart || approxEnd),
+    ...(rest.length > 0 ? { description: rest.join(", ") } : {}),
+  };
+
+  const issues = personIssues(raw);
+  return issues.length > 0 ? { issues } : { person: toPerson(raw)! };
+}
@@ -0,0 +1,62 @@
+import { parseCsv } from "@/lib/timelineFile";
+
+/** Canonical form of a typed name — the key for every name-keyed cache. */
+export function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+// List decorations people paste along with names: "1.", "2)", "-", "*", "•"
+const LIST_MARKER = /^\s*(?:\d+[.)]|[-*•])\s+/;
+
+function cleanEntry(entry: string): string {
+  return entry.replace(LIST_MARKER, "").replace(/^["']|["']$/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Name suffixes that follow a comma but belong to the name before: "King, Jr."
+const NAME_SUFFIX = /^(?:jr|sr|[ivx]+|phd|md|esq)\.?$/i;
+
+/**
+ * Split pasted or dropped text into names: one per line, or comma- and
+ * semicolon-separated when it's all on one line — keeping suffixes like
+ * "Jr." with the name they follow. A lone comma ("Smith, John") is read as
+ * part of one name. Duplicates (by normalized name) keep their first occurrence.
+ */
+export function splitNameList(text: string): string[] {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length !== 1) return dedupeNames(lines.map(cleanEntry).filter(Boolean));
+
+  const parts = lines[0].split(/[,;]/);
+  if (parts.length === 2 && !lines[0].includes(";")) return [cleanEntry(lines[0])].filter(Boolean);
+
+  const entries: string[] = [];
+  for (const part of parts) {
+    const entry = cleanEntry(part);
+    if (!entry) continue;
+    if (NAME_SUFFIX.test(entry) && entries.length > 0) entries[entries.length - 1] += `, ${entry}`;
+    else entries.push(entry);
+  }
+  return dedupeNames(entries);
+}
+
+/**
+ * Names from a .csv file — the "name" column when the header has one,
+ * otherwise the first column of every row.
+ */
+export function namesFromCsv(text: string): string[] {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+  const column = rows[0].findIndex((h) => h.trim().toLowerCase() === "name");
+  const cells = column === -1 ? rows.map((r) => r[0]) : rows.slice(1).map((r) => r[column]);
+  return dedupeNames(cells.map((c) => cleanEntry(c ?? "")).filter(Boolean));
+}
+
+/** Drop repeats by normalized name, keeping the first occurrence. */
+export function dedupeNames(names: string[]): string[] {
+  const seen = new Set<string>();
+  return names.filter((n) => {
+    const key = normalizeName(n);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,25 @@
+// Reads a newline-delimited JSON response body, invoking onMessage per line
+// as soon as it arrives. Resolves once the stream ends.
+
+export async function readNdjson<T>(
+  res: Response,
+  onMessage: (msg: T) => void
+): Promise<void> {
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Keep the trailing partial line in the buffer until its newline arrives
+    const lines = buffer.split("\n");
+    buffer = done ? "" : lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) onMessage(JSON.parse(line) as T);
+    }
+    if (done) return;
+  }
+}
@@ -0,0 +1,40 @@
+// Server-side persistent cache for resolved people — survives restarts.
+// Keyed by the normalized name as the user typed it (the query), so "einstein"
+// hits again next time; stored as a JSON file so no database is needed.
+//
+//   RESOLVE_CACHE_FILE      → path of the store (default .cache/people.json)
+//   RESOLVE_CACHE_TTL_DAYS  → entry lifetime in days (default 30, 0 disables the cache)
+
+import path from "path";
+import { PersonData } from "@/types/timeline";
+import { createFileCache, ttlFromEnv } from "@/lib/fileCache";
+import { normalizeName } from "@/lib/names";
+
+const store = createFileCache<PersonData>(
+  process.env.RESOLVE_CACHE_FILE ?? path.join(process.cwd(), ".cache", "people.json"),
+  ttlFromEnv(process.env.RESOLVE_CACHE_TTL_DAYS, 30)
+);
+
+export const personCache = {
+  /** Split names into cached people (with the name that found each) and names that still need resolving. */
+  async lookup(names: string[]): Promise<{ hits: { query: string; person: PersonData }[]; misses: string[] }> {
+    const hits: { query: string; person: PersonData }[] = [];
+    const misses: string[] = [];
+    for (const name of names) {
+      const person = await store.get(normalizeName(name));
+      if (person) hits.push({ query: name, person });
+      else misses.push(name);
+    }
+    return { hits, misses };
+  },
+
+  /** Save people under the input each one was resolved from. */
+  async store(entries: { query: string; person: PersonData }[]): Promise<void> {
+    await store.setMany(entries.map(({ query, person }) => [normalizeName(query), person]));
+  },
+
+  /** Remove the given typed names, or everything when omitted. Returns entries removed. */
+  async purge(names?: string[]): Promise<number> {
+    return store.purge(names?.map(normalizeName));
+  },
+};
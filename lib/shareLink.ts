@@ -0,0 +1,113 @@
+// Share links — a whole timeline packed into the URL hash, so it never
+// reaches the server. Rows are flattened to tuples, deflated and
+// base64url-encoded; decoding validates every row like an import does.
+
+import { PersonData, TimelineData } from "@/types/timeline";
+import { toPerson } from "@/lib/validation";
+
+const HASH_PREFIX = "#share=";
+const FORMAT_VERSION = 1;
+
+// [name, birth_year, death_year, category, approximate (0/1), description?, dates?, overridden?]
+// dates is [birth_month, birth_day, death_month, death_day], 0 where unknown —
+// only present when at least one is known or a later field follows. The
+// trailing overridden flag (1) marks hand edits; links made before it was
+// added simply end earlier.
+type DateParts = [number, number, number, number];
+type PersonTuple = [string, number, number | null, string, 0 | 1, string?, DateParts?, 1?];
+
+interface SharePayload {
+  v: number;
+  name: string;
+  people: PersonTuple[];
+}
+
+export interface SharedTimeline {
+  name: string;
+  data: TimelineData;
+}
+
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+}
+
+function toTuple(p: PersonData): PersonTuple {
+  const tuple: PersonTuple = [p.name, p.birth_year, p.death_year, p.category, p.approximate ? 1 : 0];
+  const dates: DateParts = [p.birth_month ?? 0, p.birth_day ?? 0, p.death_month ?? 0, p.death_day ?? 0];
+  const hasDates = dates.some((d) => d !== 0);
+  if (p.description || hasDates || p.overridden) tuple.push(p.description ?? "");
+  if (hasDates || p.overridden) tuple.push(dates);
+  if (p.overridden) tuple.push(1);
+  return tuple;
+}
+
+function fromTuple([name, birth_year, death_year, category, approximate, description, dates, overridden]: PersonTuple): unknown {
+  const [birth_month, birth_day, death_month, death_day] = (Array.isArray(dates) ? dates : [])
+    .map((d) => (d === 0 ? undefined : d));
+  return {
+    name, birth_year, death_year, category,
+    approximate: approximate === 1,
+    description: description || undefined,
+    birth_month, birth_day, death_month, death_day,
+    overridden: overridden === 1,
+  };
+}
+
+function personFromTuple(tuple: PersonTuple): PersonData | null {
+  const raw = fromTuple(tuple);
+  const person = toPerson(raw);
+  // toPerson keeps only the resolved fields; the hand-edit flag rides along
+  if (person && (raw as { overridden: boolean }).overridden) person.overridden = true;
+  return person;
+}
+
+/** A full share URL for the current page, with the chart in its hash. */
+export async function buildShareUrl(name: string, data: TimelineData): Promise<string> {
+  const payload: SharePayload = { v: FORMAT_VERSION, name, people: data.map(toTuple) };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const packed = await transform(json, new CompressionStream("deflate-raw"));
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.hash = `${HASH_PREFIX.slice(1)}${toBase64Url(packed)}`;
+  return url.toString();
+}
+
+/** The encoded part of a share hash, or null when the hash isn't a share link. */
+export function shareTokenFromHash(hash: string): string | null {
+  return hash.startsWith(HASH_PREFIX) ? hash.slice(HASH_PREFIX.length) : null;
+}
+
+/** Decode a share token; throws when it is damaged or holds no valid rows. */
+export async function decodeShareToken(token: string): Promise<SharedTimeline> {
+  let payload: SharePayload;
+  try {
+    const json = await transform(fromBase64Url(token), new DecompressionStream("deflate-raw"));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error("This share link is damaged or incomplete.");
+  }
+  if (payload?.v !== FORMAT_VERSION || !Array.isArray(payload.people)) {
+    throw new Error("This share link was made by a different version of Lifelines.");
+  }
+
+  const data = payload.people
+    .map((t) => (Array.isArray(t) ? personFromTuple(t as PersonTuple) : null))
+    .filter((p): p is PersonData => p !== null);
+  if (data.length === 0) throw new Error("This share link has no one on it.");
+  return { name: typeof payload.name === "string" && payload.name.trim() ? payload.name : "Shared timeline", data };
+}
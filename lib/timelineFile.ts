@@ -0,0 +1,222 @@
+// JSON and CSV interchange for TimelineData — for curated lists kept in
+// spreadsheets. Imports are validated row by row against PersonData with the
+// same rules applied to model output.
+
+import { PersonData, TimelineData } from "@/types/timeline";
+import { personIssues, toPerson } from "@/lib/validation";
+import { personKey } from "@/lib/chartUtils";
+
+export type TimelineFileFormat = "json" | "csv";
+
+const CSV_COLUMNS = [
+  "name", "birth_year", "death_year", "category", "approximate", "description",
+  "birth_month", "birth_day", "death_month", "death_day",
+] as const;
+
+// Everything else has a default (see withDefaults)
+const REQUIRED_CSV_COLUMNS = ["name", "birth_year"] as const;
+
+// A row that failed validation — `row` is the 1-based data row (CSV header excluded)
+export interface ImportRowError {
+  row: number;
+  name?: string;
+  issues: string[];
+}
+
+export interface ImportResult {
+  people: PersonData[];
+  errors: ImportRowError[];
+}
+
+// ── Export ──────────────────────────────────────────────────────────────────
+
+export function toJson(data: TimelineData): string {
+  return JSON.stringify(data, null, 2) + "\n";
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Spreadsheets run text starting with = + - @ as a formula; a leading quote
+// keeps it text. Only free-text columns — a negative year is a plain number.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function textCell(value: string): string {
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+function fromTextCell(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function toCsv(data: TimelineData): string {
+  const lines = data.map((p) =>
+    [
+      textCell(p.name),
+      String(p.birth_year),
+      p.death_year === null ? "" : String(p.death_year),
+      textCell(p.category),
+      String(p.approximate),
+      textCell(p.description ?? ""),
+      p.birth_month === undefined ? "" : String(p.birth_month),
+      p.birth_day === undefined ? "" : String(p.birth_day),
+      p.death_month === undefined ? "" : String(p.death_month),
+      p.death_day === undefined ? "" : String(p.death_day),
+    ].map(csvCell).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...lines].join("\n") + "\n";
+}
+
+// ── Import ──────────────────────────────────────────────────────────────────
+
+/** RFC 4180-style parse: quoted cells may hold commas, quotes and newlines. */
+export function parseCsv(source: string): string[][] {
+  // Excel prefixes UTF-8 CSVs with a byte-order mark
+  const text = source.replace(/^\uFEFF/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+// Spreadsheet cells are all text — coerce the typed columns, leaving
+// anything unrecognisable as-is so validation reports it
+function coerceCsvRow(header: string[], cells: string[]): Record<string, unknown> {
+  const raw: Record<string, unknown> = {};
+  header.forEach((column, i) => {
+    const value = (cells[i] ?? "").trim();
+    switch (column) {
+      case "birth_year":
+        raw.birth_year = /^-?\d+$/.test(value) ? Number(value) : value;
+        break;
+      case "death_year":
+        raw.death_year = value === "" || /^(null|living)$/i.test(value)
+          ? null
+          : /^-?\d+$/.test(value) ? Number(value) : value;
+        break;
+      case "approximate":
+        raw.approximate = value === "" ? undefined
+          : /^(true|yes|1)$/i.test(value) ? true
+          : /^(false|no|0)$/i.test(value) ? false
+          : value;
+        break;
+      case "description":
+        if (value) raw.description = fromTextCell(value);
+        break;
+      case "birth_month":
+      case "birth_day":
+      case "death_month":
+      case "death_day":
+        // Blank means the date is only known to the year
+        if (value) raw[column] = /^\d+$/.test(value) ? Number(value) : value;
+        break;
+      default:
+        raw[column] = fromTextCell(value);
+    }
+  });
+  return raw;
+}
+
+// Optional fields may be left out of hand-written files; a missing category
+// is Other, as in manual entry
+function withDefaults(raw: unknown): unknown {
+  if (typeof raw !== "object" || raw === null) return raw;
+  const item = raw as Record<string, unknown>;
+  return {
+    ...item,
+    death_year: item.death_year === undefined ? null : item.death_year,
+    approximate: item.approximate === undefined ? false : item.approximate,
+    category: item.category === undefined || item.category === "" ? "Other" : item.category,
+  };
+}
+
+function validateRows(rows: unknown[]): ImportResult {
+  const people: PersonData[] = [];
+  const errors: ImportRowError[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((raw, i) => {
+    const entry = withDefaults(raw);
+    const issues = personIssues(entry);
+    const name = typeof (entry as { name?: unknown })?.name === "string"
+      ? (entry as { name: string }).name.trim()
+      : undefined;
+    if (issues.length > 0) {
+      errors.push({ row: i + 1, name, issues });
+      return;
+    }
+    const person = toPerson(entry)!;
+    // Hand-edit flags survive a JSON round-trip
+    if ((entry as { overridden?: unknown }).overridden === true) person.overridden = true;
+    if (seen.has(personKey(person))) {
+      errors.push({ row: i + 1, name, issues: ["duplicate of an earlier row"] });
+      return;
+    }
+    seen.add(personKey(person));
+    people.push(person);
+  });
+
+  return { people, errors };
+}
+
+export function formatFromFileName(fileName: string, text: string): TimelineFileFormat {
+  if (/\.json$/i.test(fileName)) return "json";
+  if (/\.csv$/i.test(fileName)) return "csv";
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+/**
+ * Parse and validate an imported file. File-level problems (unparseable
+ * JSON, a CSV without name or birth_year columns) throw; row-level problems
+ * are returned alongside the valid rows.
+ */
+export function parseTimelineFile(text: string, format: TimelineFileFormat): ImportResult {
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("File is not valid JSON.");
+    }
+    if (!Array.isArray(parsed)) throw new Error("JSON file must contain an array of people.");
+    return validateRows(parsed);
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error("CSV file is empty.");
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const missing = REQUIRED_CSV_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    const list = missing.map((c) => `"${c}"`).join(" and ");
+    throw new Error(`CSV header must include ${missing.length === 1 ? `a ${list} column` : `${list} columns`}.`);
+  }
+  return validateRows(rows.map((cells) => coerceCsvRow(columns, cells)));
+}
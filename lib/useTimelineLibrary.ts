@@ -0,0 +1,150 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { TimelineData, ChartMeta, PersonData } from "@/types/timeline";
+import { eventCache, eventKey } from "@/lib/eventCache";
+
+const INDEX_KEY  = "tg_charts";
+const ACTIVE_KEY = "tg_active_chart";
+// Single-chart storage from before the library — migrated into the first entry
+const LEGACY_KEY = "tg_timeline_data";
+export const DEFAULT_CHART_NAME = "Untitled timeline";
+
+function chartKey(id: string): string {
+  return `tg_chart:${id}`;
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch {
+    // Corrupt/stale data — silently discard
+    localStorage.removeItem(key);
+    return fallback;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    if (value === null || value === undefined) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(value));
+    }
+  } catch {
+    // Storage quota exceeded or private browsing — ignore
+  }
+}
+
+function newChart(name: string): ChartMeta {
+  const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  return { id, name, createdAt: Date.now() };
+}
+
+/**
+ * A library of named timelines. Each chart's rows live under their own
+ * localStorage key; only the active chart is held in memory. `data` and
+ * `setData` behave like a useLocalStorage pair bound to the active chart.
+ */
+export function useTimelineLibrary() {
+  const [charts, setCharts] = useState<ChartMeta[]>([]);
+  const [activeId, setActiveId] = useState("");
+  const [data, setData] = useState<TimelineData | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // On mount: read the index, migrating the legacy single chart if needed
+  useEffect(() => {
+    let index = readJson<ChartMeta[]>(INDEX_KEY, []);
+    if (index.length === 0) {
+      const first = newChart(DEFAULT_CHART_NAME);
+      writeJson(chartKey(first.id), readJson<TimelineData | null>(LEGACY_KEY, null));
+      localStorage.removeItem(LEGACY_KEY);
+      index = [first];
+    }
+    const stored = readJson<string>(ACTIVE_KEY, index[0].id);
+    const active = index.some((c) => c.id === stored) ? stored : index[0].id;
+    setCharts(index);
+    setActiveId(active);
+    setData(readJson<TimelineData | null>(chartKey(active), null));
+    setIsHydrated(true);
+  }, []);
+
+  // Active chart rows — switching updates id and data in the same render,
+  // so this never writes one chart's rows under another's key
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeJson(chartKey(activeId), data);
+  }, [activeId, data, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    writeJson(INDEX_KEY, charts);
+    writeJson(ACTIVE_KEY, activeId);
+  }, [charts, activeId, isHydrated]);
+
+  function switchChart(id: string) {
+    if (id === activeId) return;
+    setActiveId(id);
+    setData(readJson<TimelineData | null>(chartKey(id), null));
+  }
+
+  function createChart(name = DEFAULT_CHART_NAME, rows: TimelineData | null = null) {
+    const chart = newChart(name.trim() || DEFAULT_CHART_NAME);
+    setCharts((prev) => [...prev, chart]);
+    setActiveId(chart.id);
+    setData(rows);
+  }
+
+  function duplicateChart(id: string) {
+    const source = charts.find((c) => c.id === id);
+    if (!source) return;
+    const rows = id === activeId ? data : readJson<TimelineData | null>(chartKey(id), null);
+    const copy = newChart(`${source.name} (copy)`);
+    setCharts((prev) => {
+      const at = prev.findIndex((c) => c.id === id);
+      return [...prev.slice(0, at + 1), copy, ...prev.slice(at + 1)];
+    });
+    setActiveId(copy.id);
+    setData(rows);
+  }
+
+  function renameChart(id: string, name: string) {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setCharts((prev) => prev.map((c) => (c.id === id ? { ...c, name: trimmed } : c)));
+  }
+
+  // The library always keeps at least one chart — deleting the last one
+  // leaves a fresh, empty chart in its place
+  function deleteChart(id: string) {
+    // Cached events go with the chart, unless another chart shows the same life
+    const rowsOf = (chartId: string) =>
+      (chartId === activeId ? data : readJson<TimelineData | null>(chartKey(chartId), null)) ?? [];
+    const keyOf = (p: PersonData) => eventKey(p.name, p.birth_year, p.death_year);
+    const stillShown = new Set(charts.filter((c) => c.id !== id).flatMap((c) => rowsOf(c.id).map(keyOf)));
+    eventCache.forget(rowsOf(id).map(keyOf).filter((k) => !stillShown.has(k)));
+
+    localStorage.removeItem(chartKey(id));
+    const remaining = charts.filter((c) => c.id !== id);
+    if (remaining.length === 0) remaining.push(newChart(DEFAULT_CHART_NAME));
+    setCharts(remaining);
+    if (id === activeId) {
+      setActiveId(remaining[0].id);
+      setData(readJson<TimelineData | null>(chartKey(remaining[0].id), null));
+    }
+  }
+
+  return {
+    charts,
+    activeId,
+    data,
+    setData,
+    isHydrated,
+    switchChart,
+    createChart,
+    duplicateChart,
+    renameChart,
+    deleteChart,
+  };
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+
+// Oldest snapshots fall off past this many steps
+const HISTORY_LIMIT = 50;
+
+/**
+ * Undo/redo over a piece of state owned elsewhere. Callers mark edits with
+ * `checkpoint()` just before changing the value — so a multi-step edit
+ * (e.g. a streamed generate) can share one checkpoint and undo as a unit.
+ * History resets whenever `resetKey` changes.
+ */
+export function useUndoHistory<T>(
+  value: T,
+  setValue: React.Dispatch<React.SetStateAction<T>>,
+  resetKey: string,
+) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+  // Latest value, readable from async callbacks between renders
+  const valueRef = useRef(value);
+  valueRef.current = value;
+
+  useEffect(() => {
+    setPast([]);
+    setFuture([]);
+  }, [resetKey]);
+
+  function checkpoint() {
+    const snapshot = valueRef.current;
+    setPast((prev) => [...prev.slice(-(HISTORY_LIMIT - 1)), snapshot]);
+    setFuture([]);
+  }
+
+  function undo() {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture((prev) => [valueRef.current, ...prev]);
+    setValue(previous);
+  }
+
+  function redo() {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast((prev) => [...prev, valueRef.current]);
+    setValue(next);
+  }
+
+  return {
+    checkpoint,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
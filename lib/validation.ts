@@ -0,0 +1,183 @@
+// Validation for model output — turns loosely-formatted LLM text into
+// PersonData / NotableEvent values, or lists what is wrong so the model
+// can be asked to repair it.
+
+import { PersonData } from "@/types/timeline";
+import { NotableEvent } from "@/lib/eventCache";
+import { daysInMonth, yearPoint } from "@/lib/dates";
+
+const CURRENT_YEAR = 2026;
+
+export const CATEGORIES = [
+  "Scientists", "Rulers", "Artists", "Athletes", "Musicians", "Writers",
+  "Philosophers", "Explorers", "Inventors", "Mathematicians", "Architects",
+  "Generals", "Humanitarians", "Theologians", "Other",
+] as const;
+
+/**
+ * Pull the first JSON array out of model text — tolerating code fences,
+ * prose before or after, and trailing commas. Throws if none parses.
+ */
+export function parseJsonArray(text: string): unknown[] {
+  const start = text.indexOf("[");
+  if (start === -1) throw new Error("No JSON array found in response");
+
+  // Walk to the matching close bracket, skipping brackets inside strings
+  let depth = 0;
+  let inString = false;
+  let end = -1;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "[" || ch === "{") {
+      depth++;
+    } else if (ch === "]" || ch === "}") {
+      depth--;
+      if (depth === 0) { end = i; break; }
+    }
+  }
+  if (end === -1) throw new Error("JSON array is truncated");
+
+  const candidate = stripTrailingCommas(text.slice(start, end + 1));
+  const parsed = JSON.parse(candidate);
+  if (!Array.isArray(parsed)) throw new Error("Response was not an array");
+  return parsed;
+}
+
+function stripTrailingCommas(json: string): string {
+  let out = "";
+  let inString = false;
+  for (let i = 0; i < json.length; i++) {
+    const ch = json[i];
+    if (inString) {
+      out += ch;
+      if (ch === "\\") out += json[++i] ?? "";
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    if (ch === ",") {
+      const next = json.slice(i + 1).match(/^\s*([\]}])/);
+      if (next) continue; // drop the comma, keep the bracket
+    }
+    out += ch;
+  }
+  return out;
+}
+
+function isYear(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value !== 0;
+}
+
+// Month and day are optional (null counts as absent), but a day needs a
+// month and must fit in it
+function dateIssues(which: "birth" | "death", year: unknown, month: unknown, day: unknown): string[] {
+  if (month == null) return day == null ? [] : [`${which}_day needs ${which}_month`];
+  if (!Number.isInteger(month) || (month as number) < 1 || (month as number) > 12) {
+    return [`${which}_month must be an integer from 1 to 12`];
+  }
+  if (day == null) return [];
+  const maxDay = isYear(year) ? daysInMonth(year, month as number) : 31;
+  if (!Number.isInteger(day) || (day as number) < 1 || (day as number) > maxDay) {
+    return [`${which}_day is not a day of ${which}_month`];
+  }
+  return [];
+}
+
+const DATE_FIELDS = ["birth_month", "birth_day", "death_month", "death_day"] as const;
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+/** Problems with a raw person entry; empty when it is a valid PersonData. */
+export function personIssues(raw: unknown): string[] {
+  const item = raw as Partial<Record<keyof PersonData, unknown>> | null;
+  if (typeof item !== "object" || item === null) return ["entry is not an object"];
+
+  const issues: string[] = [];
+  if (typeof item.name !== "string" || !item.name.trim()) issues.push("missing name");
+  if (!isYear(item.birth_year)) issues.push("birth_year must be a non-zero integer");
+  if (item.death_year !== null && !isYear(item.death_year)) {
+    issues.push("death_year must be a non-zero integer or null");
+  }
+  if (isYear(item.birth_year) && isYear(item.death_year) && item.birth_year > item.death_year) {
+    issues.push("birth_year is after death_year");
+  }
+  const birthDate = dateIssues("birth", item.birth_year, item.birth_month, item.birth_day);
+  const deathDate = item.death_year === null && (item.death_month != null || item.death_day != null)
+    ? ["death_month and death_day need a death_year"]
+    : dateIssues("death", item.death_year, item.death_month, item.death_day);
+  issues.push(...birthDate, ...deathDate);
+  if (
+    birthDate.length === 0 && deathDate.length === 0 &&
+    isYear(item.birth_year) && item.birth_year === item.death_year &&
+    yearPoint(item.birth_year, optionalNumber(item.birth_month), optionalNumber(item.birth_day)) >
+      yearPoint(item.death_year, optionalNumber(item.death_month), optionalNumber(item.death_day))
+  ) {
+    issues.push("birth date is after death date");
+  }
+  if (isYear(item.birth_year) && item.birth_year > CURRENT_YEAR) {
+    issues.push(`birth_year is after ${CURRENT_YEAR}`);
+  }
+  if (isYear(item.death_year) && item.death_year > CURRENT_YEAR) {
+    issues.push(`death_year is after ${CURRENT_YEAR}`);
+  }
+  if (typeof item.category !== "string" || !matchCategory(item.category)) {
+    issues.push(`category must be one of ${CATEGORIES.join(", ")}`);
+  }
+  if (typeof item.approximate !== "boolean") issues.push("approximate must be a boolean");
+  if (item.description !== undefined && typeof item.description !== "string") {
+    issues.push("description must be a string");
+  }
+  return issues;
+}
+
+function matchCategory(category: string): string | undefined {
+  const lower = category.trim().toLowerCase();
+  return CATEGORIES.find((c) => c.toLowerCase() === lower);
+}
+
+/** Copy the known fields of a valid entry, canonicalising the category. */
+export function toPerson(raw: unknown): PersonData | null {
+  if (personIssues(raw).length > 0) return null;
+  const item = raw as PersonData;
+  return {
+    name: item.name.trim(),
+    birth_year: item.birth_year,
+    death_year: item.death_year,
+    category: matchCategory(item.category)!,
+    approximate: item.approximate,
+    // Month/day are copied only when present, so imprecise rows stay lean
+    ...Object.fromEntries(
+      DATE_FIELDS.filter((f) => typeof item[f] === "number").map((f) => [f, item[f]])
+    ),
+    ...(typeof item.description === "string" ? { description: item.description } : {}),
+  };
+}
+
+/** Problems with a raw event entry for a grid spanning [from, to]. */
+export function eventIssues(raw: unknown, from: number, to: number): string[] {
+  const item = raw as Partial<Record<keyof NotableEvent, unknown>> | null;
+  if (typeof item !== "object" || item === null) return ["entry is not an object"];
+
+  const issues: string[] = [];
+  if (!isYear(item.year)) issues.push("year must be a non-zero integer");
+  else if (item.year < from || item.year > to) issues.push(`year must be between ${from} and ${to}`);
+  if (typeof item.label !== "string" || !item.label.trim()) issues.push("missing label");
+  return issues;
+}
+
+/** The user message for a single repair round-trip to the model. */
+export function repairMessage(original: string, response: string, issues: string[]): string {
+  return (
+    `${original}\n\n` +
+    `Your previous response was:\n${response}\n\n` +
+    `It had these problems:\n${issues.map((i) => `- ${i}`).join("\n")}\n\n` +
+    `Return the corrected JSON array only, following every rule.`
+  );
+}
@@ -2,11 +2,67 @@ export interface PersonData {
   name: string;
   birth_year: number;
   death_year: number | null; // null = living
+  birth_month?: number; // 1–12, when the exact date is known
+  birth_day?: number;   // 1–31, only alongside birth_month
+  death_month?: number;
+  death_day?: number;
   category: string;
   approximate: boolean;
   description?: string; // one-sentence epitaph
+  overridden?: boolean; // edited by hand — a re-resolve asks before replacing the row
 }
 
 export type TimelineData = PersonData[];
 
+// A requested name the resolver could not place on the chart, and why
+export interface UnresolvedName {
+  name: string;
+  reason: string;
+}
+
 export type AppState = "landing" | "input" | "loading" | "error";
+
+// Outcome of re-resolving one person — a single match, a choice, or a refusal
+export type ReResolveOutcome =
+  | { kind: "person"; person: PersonData }
+  | { kind: "candidates"; candidates: PersonData[] }
+  | { kind: "unresolved"; reason: string };
+
+// How TimelineChart arranges rows
+export type ChartLayout = "flat" | "grouped" | "packed";
+
+// Row order within the flat and grouped layouts
+export type SortKey = "birth" | "death" | "lifespan" | "name" | "category" | "added";
+
+// An entry in the timeline library — rows are stored separately, per chart
+export interface ChartMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+// Print poster settings — "paginate" splits rows across pages, "fit" squeezes them onto one
+export interface PrintOptions {
+  paper: "a4" | "a3" | "letter";
+  orientation: "landscape" | "portrait";
+  fit: "paginate" | "fit";
+  title: string;
+}
+
+// A requested name that matches several notable people — the user picks one
+export interface AmbiguousName {
+  query: string;
+  candidates: PersonData[];
+}
+
+// One line of the streaming /api/resolve response (Accept: application/x-ndjson)
+export type ResolveStreamMessage =
+  | { type: "person"; person: PersonData; query?: string } // query: the input it answers
+  | {
+      type: "done";
+      providers: string[];
+      cached: number;
+      unresolved: UnresolvedName[];
+      ambiguous: AmbiguousName[];
+    }
+  | { type: "error"; error: string; status: number };